@@ -8,7 +8,19 @@
 import OpenAI from "openai";
 import { config } from "../config.js";
 
-export const client = new OpenAI({
-  baseURL: config.baseUrl,
-  apiKey: config.apiKey,
-});
+function createClient(): OpenAI {
+  return new OpenAI({
+    baseURL: config.baseUrl,
+    apiKey: config.apiKey,
+  });
+}
+
+export let client = createClient();
+
+/**
+ * Re-create the client after the config is reloaded (e.g. for --base-url).
+ * Importers see the new client, since ES module exports are live bindings.
+ */
+export function resetClient(): void {
+  client = createClient();
+}
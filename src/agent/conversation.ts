@@ -6,10 +6,64 @@
  */
 
 import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { CompletionUsage } from "openai/resources/completions";
 import type OpenAI from "openai";
+import { estimateMessagesTokens, formatTokens, getContextWindow, getPromptBudget } from "./tokens.js";
+import { HeadTailBuffer } from "../utils/outputBuffer.js";
 
-// Compact conversation when it exceeds this many messages
-export const COMPACTION_THRESHOLD = 30;
+// Compact conversation when the projected prompt exceeds this share of the prompt budget
+export const COMPACTION_THRESHOLD = 0.8;
+
+// Turns (a user message and everything up to the next one) kept word for word by compaction
+export const KEEP_RECENT_TURNS = 2;
+
+// Characters of each tool result the summarizer sees
+const SUMMARY_TOOL_RESULT_CHARS = 2000;
+
+// Tools whose `path` argument goes into the file ledger
+const READ_TOOLS = ["read_file"];
+const WRITE_TOOLS = ["write_file", "edit_file"];
+// File headers in apply_patch input (envelope and unified diff formats)
+const PATCH_FILE_PATTERN = /^(?:\*\*\* (?:Add|Update|Delete) File:|\+\+\+ b\/)(.+)$/gm;
+
+/**
+ * Outcome of a compaction.
+ */
+export interface CompactionResult {
+  messagesBefore: number;
+  messagesAfter: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** Recent turns kept word for word */
+  keptTurns: number;
+}
+
+/**
+ * Everything needed to restore a conversation later (see sessions.ts).
+ */
+export interface ConversationSnapshot {
+  /** Messages after the system prompt, which is rebuilt on restore */
+  messages: ChatCompletionMessageParam[];
+  /** Compaction state, when the conversation has been compacted */
+  compaction?: {
+    summary: string;
+    summaryIndex: number;
+    filesRead: string[];
+    filesModified: string[];
+  };
+}
+
+/**
+ * How full the context window is.
+ */
+export interface ContextUsage {
+  /** Projected prompt tokens for the next request */
+  tokens: number;
+  /** Context window of the model */
+  window: number;
+  /** False when no response has reported usage yet and everything is estimated */
+  measured: boolean;
+}
 
 const COMPACTION_PROMPT = `Summarize the conversation so far in a concise way that preserves:
 1. What tasks were completed
@@ -30,7 +84,7 @@ IMPORTANT: You are an AGENT that takes ACTION. Don't just describe what to do -
 - Only explain without acting if explicitly asked to "explain" or "describe"
 
 Workflow:
-1. List directory to understand project structure
+1. List the directory tree (list_directory with depth 2-3) to understand project structure
 2. Read files before modifying them
 3. Write changes directly - don't ask permission for code edits
 4. Run commands to verify (build, test, lint) when appropriate
@@ -42,6 +96,14 @@ Be concise. Show what you changed, not what you're going to change.`;
  */
 export class Conversation {
   private messages: ChatCompletionMessageParam[] = [];
+  // Real token count reported by the last response, and how many messages it covered
+  private lastUsage: { tokens: number; messageCount: number } | null = null;
+  // Rolling summary of compacted turns, and where its message sits in the history
+  private summary = "";
+  private summaryIndex = -1;
+  // Ledger of files touched in compacted turns
+  private filesRead = new Set<string>();
+  private filesModified = new Set<string>();
 
   constructor() {
     this.reset();
@@ -52,6 +114,11 @@ export class Conversation {
    */
   reset(): void {
     this.messages = [{ role: "system", content: getSystemPrompt() }];
+    this.lastUsage = null;
+    this.summary = "";
+    this.summaryIndex = -1;
+    this.filesRead.clear();
+    this.filesModified.clear();
   }
 
   /**
@@ -83,6 +150,55 @@ export class Conversation {
     return [...this.messages];
   }
 
+  /**
+   * Capture the conversation so it can be saved and restored later.
+   */
+  snapshot(): ConversationSnapshot {
+    const snapshot: ConversationSnapshot = { messages: this.messages.slice(1) };
+    if (this.summaryIndex > 0) {
+      snapshot.compaction = {
+        summary: this.summary,
+        summaryIndex: this.summaryIndex,
+        filesRead: [...this.filesRead],
+        filesModified: [...this.filesModified],
+      };
+    }
+    return snapshot;
+  }
+
+  /**
+   * Replace the conversation with a saved one. The system prompt is rebuilt
+   * for the current directory rather than restored.
+   */
+  restore(snapshot: ConversationSnapshot): void {
+    this.reset();
+    this.messages.push(...snapshot.messages);
+    if (snapshot.compaction) {
+      this.summary = snapshot.compaction.summary;
+      this.summaryIndex = snapshot.compaction.summaryIndex;
+      snapshot.compaction.filesRead.forEach((path) => this.filesRead.add(path));
+      snapshot.compaction.filesModified.forEach((path) => this.filesModified.add(path));
+    }
+  }
+
+  /**
+   * Drop every message from `index` onwards, rewinding to just before a user turn.
+   * Returns false (and changes nothing) if the message at `index` isn't that turn's
+   * user message - e.g. because the conversation was compacted or reset since.
+   */
+  truncate(index: number, userMessage: string): boolean {
+    const message = this.messages[index];
+    if (index < 1 || message?.role !== "user" || message.content !== userMessage) {
+      return false;
+    }
+    this.messages = this.messages.slice(0, index);
+    this.lastUsage = null;
+    if (this.summaryIndex >= index) {
+      this.summaryIndex = -1;
+    }
+    return true;
+  }
+
   /**
    * Get the number of messages (excluding system prompt).
    */
@@ -90,64 +206,193 @@ export class Conversation {
     return this.messages.length - 1;
   }
 
+  /**
+   * Record the token usage a response reported. Call it after adding the
+   * response, so its tokens count towards the next prompt.
+   */
+  recordUsage(usage: CompletionUsage): void {
+    this.lastUsage = {
+      tokens: usage.prompt_tokens + usage.completion_tokens,
+      messageCount: this.messages.length,
+    };
+  }
+
+  /**
+   * Project the prompt size of the next request: the last reported usage plus
+   * estimates for messages added since (or an estimate of everything before
+   * the first response).
+   */
+  getContextUsage(): ContextUsage {
+    const window = getContextWindow();
+    if (!this.lastUsage) {
+      return { tokens: estimateMessagesTokens(this.messages), window, measured: false };
+    }
+    const added = estimateMessagesTokens(this.messages.slice(this.lastUsage.messageCount));
+    return { tokens: this.lastUsage.tokens + added, window, measured: true };
+  }
+
   /**
    * Check if conversation needs compaction.
    */
   needsCompaction(): boolean {
-    return this.messages.length > COMPACTION_THRESHOLD;
+    return this.getContextUsage().tokens > getPromptBudget() * COMPACTION_THRESHOLD;
   }
 
   /**
-   * Compact the conversation by summarizing it.
-   * Replaces all messages (except system prompt) with a summary.
+   * Compact the conversation: older turns are replaced with a rolling summary
+   * and a ledger of the files read and modified, while the most recent turns
+   * are kept word for word. History is only cut where a user message starts,
+   * so an assistant's tool calls always stay next to their results.
+   *
+   * @param focus - Extra instructions for what the summary should concentrate on
+   * @param signal - Aborting it cancels the summary request; the conversation is left as it was
+   * @returns What was compacted, or null if there was nothing old enough to summarize
    */
-  async compact(client: OpenAI, model: string): Promise<void> {
-    if (this.messages.length <= 2) {
-      return; // Nothing to compact
+  async compact(client: OpenAI, model: string, focus?: string, signal?: AbortSignal): Promise<CompactionResult | null> {
+    // Indexes of user messages that start a turn (the summary message isn't one)
+    const turnStarts = this.messages
+      .map((message, index) => (message.role === "user" && index !== this.summaryIndex ? index : -1))
+      .filter((index) => index > 0);
+
+    if (turnStarts.length === 0) {
+      return null;
     }
 
-    // Build a text representation of the conversation for summarization
-    const conversationText = this.messages
-      .slice(1) // Skip system prompt
-      .map((msg) => {
-        if (msg.role === "user") return `User: ${msg.content}`;
-        if (msg.role === "assistant") {
-          const content = typeof msg.content === "string" ? msg.content : "[tool calls]";
-          return `Assistant: ${content}`;
-        }
-        if (msg.role === "tool") return `Tool result: ${String(msg.content).slice(0, 200)}...`;
-        return "";
-      })
-      .filter(Boolean)
-      .join("\n");
+    // Keep the last KEEP_RECENT_TURNS turns, but always summarize at least one
+    const keep = Math.min(KEEP_RECENT_TURNS, turnStarts.length - 1);
+    const cut = keep > 0 ? turnStarts[turnStarts.length - keep] : this.messages.length;
+
+    const older = this.messages.slice(1, cut).filter((_, index) => index + 1 !== this.summaryIndex);
+    const recent = this.messages.slice(cut);
+    if (older.length === 0) {
+      return null;
+    }
+
+    for (const message of older) {
+      this.recordFileActivity(message);
+    }
+
+    const previousSummary = this.summary ? `Summary of earlier work:\n${this.summary}\n\n` : "";
+    const focusNote = focus ? `\n\nFocus especially on: ${focus}` : "";
 
     // Ask LLM to summarize
     const response = await client.chat.completions.create({
       model,
       messages: [
         { role: "system", content: "You are a helpful assistant that summarizes conversations." },
-        { role: "user", content: `${COMPACTION_PROMPT}\n\nConversation:\n${conversationText}` },
+        {
+          role: "user",
+          content: `${COMPACTION_PROMPT}${focusNote}\n\n${previousSummary}Conversation:\n${formatForSummary(older)}`,
+        },
       ],
       temperature: 0.3,
       max_tokens: 1000,
-    });
+    }, { signal });
 
     const summary = response.choices?.[0]?.message?.content;
     if (!summary) {
       console.log("[Compaction] Failed to generate summary, keeping original messages");
-      return;
+      return null;
     }
 
-    // Reset and add summary as context
-    const systemPrompt = this.messages[0];
+    const before = this.messages.length;
+    const tokensBefore = this.getContextUsage().tokens;
+
+    // Replace the older turns with the summary, right after the system prompt
+    this.summary = summary.trim();
     this.messages = [
-      systemPrompt,
-      {
-        role: "user",
-        content: `[CONTEXT FROM PREVIOUS WORK]\n${summary}\n\n[Continue from here]`,
-      },
+      this.messages[0],
+      { role: "user", content: this.formatSummaryMessage() },
+      ...recent,
     ];
+    this.summaryIndex = 1;
+    this.lastUsage = null;
+
+    const result: CompactionResult = {
+      messagesBefore: before,
+      messagesAfter: this.messages.length,
+      tokensBefore,
+      tokensAfter: this.getContextUsage().tokens,
+      keptTurns: keep,
+    };
+    console.log(
+      `[Compaction] Reduced conversation from ${result.messagesBefore} to ${result.messagesAfter} messages ` +
+      `(${formatTokens(result.tokensBefore)} to ${formatTokens(result.tokensAfter)} tokens, ` +
+      `kept the last ${keep} turn(s) verbatim)`
+    );
+    return result;
+  }
 
-    console.log(`[Compaction] Reduced conversation from ${this.messages.length} to 2 messages`);
+  /**
+   * Add the files a message's tool calls read or modified to the ledger.
+   */
+  private recordFileActivity(message: ChatCompletionMessageParam): void {
+    if (message.role !== "assistant" || !message.tool_calls) return;
+
+    for (const call of message.tool_calls) {
+      if (call.type !== "function") continue;
+      let args: Record<string, unknown>;
+      try {
+        args = JSON.parse(call.function.arguments || "{}");
+      } catch {
+        continue;
+      }
+
+      const name = call.function.name;
+      if (READ_TOOLS.includes(name) && typeof args.path === "string") {
+        this.filesRead.add(args.path);
+      } else if (WRITE_TOOLS.includes(name) && typeof args.path === "string") {
+        this.filesModified.add(args.path);
+      } else if (name === "apply_patch" && typeof args.patch === "string") {
+        for (const match of args.patch.matchAll(PATCH_FILE_PATTERN)) {
+          this.filesModified.add(match[1].trim());
+        }
+      }
+    }
   }
+
+  private formatSummaryMessage(): string {
+    const ledger: string[] = [];
+    if (this.filesModified.size > 0) {
+      ledger.push(`Files modified: ${[...this.filesModified].join(", ")}`);
+    }
+    const onlyRead = [...this.filesRead].filter((path) => !this.filesModified.has(path));
+    if (onlyRead.length > 0) {
+      ledger.push(`Files read: ${onlyRead.join(", ")}`);
+    }
+    const ledgerText = ledger.length > 0 ? `\n\n${ledger.join("\n")}\n(Re-read files before editing them - their contents are not in this summary.)` : "";
+    return `[CONTEXT FROM PREVIOUS WORK]\n${this.summary}${ledgerText}\n\n[Continue from here]`;
+  }
+}
+
+/**
+ * Render messages as plain text for the summarizer. Tool results keep their
+ * start and end, so the summary can mention what files contained.
+ */
+function formatForSummary(messages: ChatCompletionMessageParam[]): string {
+  const text = messages
+    .map((msg) => {
+      if (msg.role === "user") return `User: ${msg.content}`;
+      if (msg.role === "assistant") {
+        const calls = (msg.tool_calls ?? [])
+          .map((call) => (call.type === "function" ? `${call.function.name}(${truncateMiddle(call.function.arguments, 300)})` : ""))
+          .filter(Boolean);
+        const content = typeof msg.content === "string" && msg.content ? msg.content : "";
+        return `Assistant: ${[content, ...calls.map((call) => `[called ${call}]`)].filter(Boolean).join("\n")}`;
+      }
+      if (msg.role === "tool") return `Tool result: ${truncateMiddle(String(msg.content), SUMMARY_TOOL_RESULT_CHARS)}`;
+      return "";
+    })
+    .filter(Boolean)
+    .join("\n");
+
+  // The summary request has to fit in the context window too - keep the most recent part
+  const maxChars = getPromptBudget() * 2;
+  return text.length > maxChars ? `...\n${text.slice(-maxChars)}` : text;
+}
+
+function truncateMiddle(text: string, maxChars: number): string {
+  const buffer = new HeadTailBuffer(maxChars);
+  buffer.append(text);
+  return buffer.toString();
 }
@@ -4,6 +4,7 @@
  * Exports the agent loop and conversation state for use in the CLI.
  */
 
-export { runAgentLoop } from "./loop.js";
-export { Conversation, COMPACTION_THRESHOLD } from "./conversation.js";
-export { client } from "./client.js";
+export { runAgentLoop, type AgentEvents, type ParsedToolCall } from "./loop.js";
+export { Conversation, COMPACTION_THRESHOLD, type ContextUsage } from "./conversation.js";
+export { formatTokens, getContextWindow } from "./tokens.js";
+export { client, resetClient } from "./client.js";
@@ -0,0 +1,100 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import type { ChatCompletionChunk } from "openai/resources/chat/completions";
+import { config } from "../config.js";
+import { client } from "./client.js";
+import { Conversation } from "./conversation.js";
+import { runAgentLoop, CANCELLED_RESPONSE } from "./loop.js";
+
+type Params = { stream?: boolean; messages: unknown[] };
+type Create = (params: Params, options?: { signal?: AbortSignal }) => Promise<unknown>;
+
+const completions = client.chat.completions as unknown as { create: Create };
+const originalCreate = completions.create;
+const originalWindow = config.contextWindow;
+
+after(() => {
+  completions.create = originalCreate;
+  config.contextWindow = originalWindow;
+});
+
+async function* streamOf(chunks: Partial<ChatCompletionChunk>[]): AsyncIterable<ChatCompletionChunk> {
+  for (const chunk of chunks) {
+    yield { id: "test", model: "test", object: "chat.completion.chunk", created: 0, choices: [], ...chunk };
+  }
+}
+
+// A response that reads the same file several times in parallel
+function readFileCalls(count: number) {
+  return streamOf([{
+    choices: [{
+      index: 0,
+      finish_reason: "tool_calls",
+      delta: {
+        tool_calls: Array.from({ length: count }, (_, index) => ({
+          index,
+          id: `call_${index}`,
+          type: "function" as const,
+          function: { name: "read_file", arguments: JSON.stringify({ path: "src/agent/loop.ts" }) },
+        })),
+      },
+    }],
+  }]);
+}
+
+function reply(text: string) {
+  return streamOf([{ choices: [{ index: 0, finish_reason: "stop", delta: { content: text } }] }]);
+}
+
+test("the loop compacts between requests once tool results fill the context", async () => {
+  // A 4k window leaves a 2k token prompt budget, which four file reads overflow
+  config.contextWindow = 4000;
+
+  const requests: string[] = [];
+  let streamed = 0;
+  completions.create = async (params) => {
+    if (!params.stream) {
+      requests.push("compact");
+      return { choices: [{ message: { content: "Read loop.ts four times." } }] };
+    }
+    requests.push(`request with ${params.messages.length} messages`);
+    return ++streamed === 1 ? readFileCalls(4) : reply("done");
+  };
+
+  const conversation = new Conversation();
+  const response = await runAgentLoop(conversation, "read the loop");
+
+  assert.equal(response, "done");
+  assert.deepEqual(requests, [
+    "request with 2 messages",
+    "compact",
+    "request with 2 messages",
+  ]);
+  assert.ok(!conversation.needsCompaction());
+});
+
+test("cancelling during compaction ends the turn and keeps the history", async () => {
+  config.contextWindow = 4000;
+
+  const controller = new AbortController();
+  let streamed = 0;
+  completions.create = async (params, options) => {
+    if (!params.stream) {
+      controller.abort();
+      assert.equal(options?.signal?.aborted, true);
+      throw new Error("Request was aborted.");
+    }
+    if (options?.signal?.aborted) {
+      throw new Error("Request was aborted.");
+    }
+    return ++streamed === 1 ? readFileCalls(4) : reply("done");
+  };
+
+  const conversation = new Conversation();
+  const response = await runAgentLoop(conversation, "read the loop", { signal: controller.signal });
+
+  assert.equal(response, CANCELLED_RESPONSE);
+  assert.equal(streamed, 1);
+  // system, user, assistant with the tool calls and the four results
+  assert.equal(conversation.getMessages().length, 7);
+});
@@ -16,13 +16,21 @@
  */
 
 import type { ChatCompletionToolMessageParam } from "openai/resources/chat/completions";
+import type { CompletionUsage } from "openai/resources/completions";
 import { client } from "./client.js";
 import { config, runtimeSettings } from "../config.js";
-import { getToolDefinitions, executeTool } from "../tools/index.js";
+import { getToolDefinitions, executeTool, isReadOnlyTool, type ToolResult } from "../tools/index.js";
 import { Conversation } from "./conversation.js";
+import { redactSecrets } from "./redaction.js";
+import { formatTokens, limitToolOutput } from "./tokens.js";
+import { collectStream, splitThinking, ThinkingFilter, type StreamHandlers } from "./stream.js";
+import { beginCheckpoint } from "../checkpoints.js";
 import { colors } from "../utils/colors.js";
 import { spinner } from "../utils/spinner.js";
 
+// Returned when the turn is cancelled through options.signal
+export const CANCELLED_RESPONSE = "(cancelled)";
+
 /**
  * Truncate tool arguments for display (e.g., don't show entire file content)
  */
@@ -114,6 +122,71 @@ function parseToolArguments(argsString: string): Record<string, unknown> {
   }
 }
 
+/**
+ * A function tool call with its arguments parsed.
+ */
+export interface ParsedToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Callbacks for following a turn from outside, e.g. to log it (see headless.ts).
+ */
+export interface AgentEvents {
+  /** A tool is about to run */
+  onToolCall?: (call: ParsedToolCall) => void;
+  /** A tool finished - `output` is what the model sees (redacted and size-limited) */
+  onToolResult?: (call: ParsedToolCall, result: ToolResult) => void;
+  /** Token counts for one request, when the server reports them */
+  onUsage?: (usage: CompletionUsage) => void;
+  /** The turn stopped because the model was still calling tools after `limit` requests */
+  onIterationLimit?: (limit: number) => void;
+}
+
+/**
+ * Group tool calls into batches that run one after another.
+ * Consecutive read-only calls share a batch; every other call gets its own.
+ */
+function batchToolCalls(calls: ParsedToolCall[]): ParsedToolCall[][] {
+  const batches: ParsedToolCall[][] = [];
+  let readOnlyBatch: ParsedToolCall[] | null = null;
+
+  for (const call of calls) {
+    if (!isReadOnlyTool(call.name)) {
+      batches.push([call]);
+      readOnlyBatch = null;
+    } else if (readOnlyBatch) {
+      readOnlyBatch.push(call);
+    } else {
+      readOnlyBatch = [call];
+      batches.push(readOnlyBatch);
+    }
+  }
+
+  return batches;
+}
+
+/**
+ * Run `fn` over every item with at most `limit` running at once.
+ * Results come back in the same order as the items.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 /**
  * Process thinking tags from model output.
  *
@@ -124,22 +197,7 @@ function parseToolArguments(argsString: string): Record<string, unknown> {
  */
 function processThinkingTags(content: string): string {
   // Extract thinking content and main response
-  let thinking = "";
-  let response = content;
-
-  // Case 1: Full <think>...</think> blocks
-  const fullMatch = content.match(/<think>([\s\S]*?)<\/think>/);
-  if (fullMatch) {
-    thinking = fullMatch[1].trim();
-    response = content.replace(/<think>[\s\S]*?<\/think>/g, "").trim();
-  } else {
-    // Case 2: Everything before </think> (when opening tag is missing)
-    const partialMatch = content.match(/^([\s\S]*?)<\/think>/);
-    if (partialMatch) {
-      thinking = partialMatch[1].trim();
-      response = content.replace(/^[\s\S]*?<\/think>/g, "").trim();
-    }
-  }
+  const { thinking, response } = splitThinking(content);
 
   // If user wants to see thinking, format it nicely
   if (runtimeSettings.showThinking && thinking) {
@@ -152,6 +210,31 @@ function processThinkingTags(content: string): string {
   return response;
 }
 
+/**
+ * Compact the conversation before a request if it has grown near the context
+ * window. The REPL also compacts between turns, but a single long turn - or a
+ * headless or boss mode run - can pile up tool results past the limit first.
+ * A failed summary isn't fatal: the request goes out with the full history.
+ */
+async function compactBeforeRequest(
+  conversation: Conversation,
+  spinnerMessage: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const usage = conversation.getContextUsage();
+  log.step(`Compacting conversation - ${formatTokens(usage.tokens)} tokens in ${conversation.getMessageCount()} messages`);
+  spinner.update("Compacting conversation...");
+  try {
+    await conversation.compact(client, config.model, undefined, signal);
+  } catch (error) {
+    // A cancel ends the turn at the request that follows
+    if (!signal?.aborted) {
+      log.error(`Compaction failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  spinner.update(spinnerMessage);
+}
+
 /**
  * Run the agent loop for a single user message.
  * Returns the final text response from the LLM.
@@ -160,12 +243,17 @@ function processThinkingTags(content: string): string {
  *
  * @param conversation - The conversation state (maintains history across calls)
  * @param userMessage - The user's current message
+ * @param options.stream - Handlers to render text live as it streams in
+ * @param options.signal - Aborting it cancels the request or tools in flight and ends the turn
+ * @param options.events - Callbacks for tool calls, results and token usage
  */
 export async function runAgentLoop(
   conversation: Conversation,
   userMessage: string,
-  options: { bossMode?: boolean } = {}
+  options: { bossMode?: boolean; stream?: StreamHandlers; signal?: AbortSignal; events?: AgentEvents } = {}
 ): Promise<string> {
+  const events = options.events ?? {};
+
   // =========================================================================
   // STEP 1: ADD USER MESSAGE TO CONVERSATION
   // =========================================================================
@@ -173,6 +261,8 @@ export async function runAgentLoop(
   // We add the new user message to the existing history, so the LLM can
   // reference previous messages in the session.
   //
+  // File changes made during this turn are grouped into one checkpoint for /undo and /rewind
+  beginCheckpoint(userMessage, conversation.getMessages().length);
   conversation.addUserMessage(userMessage);
 
   // =========================================================================
@@ -187,7 +277,7 @@ export async function runAgentLoop(
   // Safety limit - prevents infinite loops if the model keeps calling tools forever
   // In boss mode, we don't cap iterations (the outer boss loop handles continuation)
   let iterationCount = 0;
-  const maxIterations = options.bossMode ? Infinity : 10;
+  const maxIterations = options.bossMode ? Infinity : config.maxIterations;
 
   const spinnerMessage = options.bossMode
     ? "[BOSS MODE] Working... (ESC to exit)"
@@ -214,45 +304,86 @@ export async function runAgentLoop(
     //   - temperature: randomness (0 = deterministic, 1 = creative)
     //   - max_tokens: maximum response length
     //
+    // Tool results from earlier iterations may have filled the context window
+    if (conversation.needsCompaction()) {
+      await compactBeforeRequest(conversation, spinnerMessage, options.signal);
+    }
+
     log.debug(`API Request to ${config.baseUrl}`);
     log.debug(`Model: ${config.model}, Provider: ${config.provider}`);
     log.debug(`Messages count: ${conversation.getMessages().length}`);
 
-    const response = await client.chat.completions.create({
-      model: config.model,
-      messages: conversation.getMessages(),
-      tools,
-      temperature: config.temperature,
-      max_tokens: config.maxTokens,
-    });
-
-    log.debug(`API Response received`, {
-      id: response.id,
-      model: response.model,
-    });
-
     // =========================================================================
-    // STEP 5: EXTRACT THE LLM'S RESPONSE
+    // STEP 5: COLLECT THE STREAMED RESPONSE
     // =========================================================================
-    // The response contains "choices" - usually just one.
-    // Each choice has a "message" with the LLM's response.
+    // The response arrives in chunks. Text is passed to the stream handlers as
+    // it comes in (split into thinking and response), while tool calls arrive
+    // as fragments that are stitched back together. The result is the same
+    // assistant message a non-streaming request would have returned.
     //
-    // Handle malformed responses (common with rate limiting or API errors)
-    if (!response || !response.choices || !Array.isArray(response.choices)) {
-      spinner.stop();
-      log.error("API returned malformed response (possibly rate limited)");
-      log.debug("Response object:", response);
-      throw new Error("API returned malformed response - try again or check rate limits");
+    const handlers = options.stream;
+    let streamed = false;
+    const filter = handlers
+      ? new ThinkingFilter(runtimeSettings.showThinking, (segment) => {
+          if (!streamed) {
+            // First visible text - the spinner would garble it
+            spinner.stop();
+            streamed = true;
+          }
+          handlers.onText(segment);
+        })
+      : null;
+
+    let completion;
+    try {
+      const stream = await client.chat.completions.create(
+        {
+          model: config.model,
+          messages: conversation.getMessages(),
+          tools,
+          temperature: config.temperature,
+          max_tokens: config.maxTokens,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: options.signal }
+      );
+      completion = await collectStream(stream, (delta) => filter?.push(delta));
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        spinner.stop();
+        if (streamed) {
+          handlers?.onEnd();
+        }
+        log.error(error instanceof Error ? error.message : String(error));
+        throw error;
+      }
     }
 
-    const choice = response.choices[0];
-    if (!choice || !choice.message) {
+    // Cancelled mid-response (the SDK may just end the stream early rather than throw):
+    // the partial reply is dropped, so history ends with the user message or
+    // tool results and stays valid for the next turn
+    if (options.signal?.aborted || !completion) {
       spinner.stop();
-      log.error("API returned empty choices array");
-      throw new Error("No response from LLM - context may be too large");
+      if (streamed) {
+        handlers?.onEnd();
+      }
+      log.step("Request cancelled");
+      return CANCELLED_RESPONSE;
     }
 
-    const assistantMessage = choice.message;
+    filter?.end();
+    if (streamed) {
+      handlers?.onEnd();
+    }
+
+    log.debug(`API Response received`, {
+      id: completion.id,
+      model: completion.model,
+      finishReason: completion.finishReason,
+    });
+
+    const assistantMessage = completion.message;
 
     // =========================================================================
     // STEP 6: ADD RESPONSE TO HISTORY
@@ -265,6 +396,12 @@ export async function runAgentLoop(
     //
     conversation.addAssistantMessage(assistantMessage);
 
+    // Real token counts keep the context budget accurate (not every server sends them)
+    if (completion.usage) {
+      conversation.recordUsage(completion.usage);
+      events.onUsage?.(completion.usage);
+    }
+
     // =========================================================================
     // STEP 7: CHECK FOR TOOL CALLS
     // =========================================================================
@@ -300,66 +437,101 @@ export async function runAgentLoop(
     //
     log.step(`LLM requested ${toolCalls.length} tool call(s):`);
 
+    // Streaming text stopped the spinner - bring it back while tools run
+    if (streamed) {
+      spinner.start(spinnerMessage);
+    }
+
+    // =====================================================================
+    // STEP 8a: PARSE THE TOOL CALLS
+    // =====================================================================
+    // Extract each tool name and parse the JSON arguments.
+    // The arguments come as a string, so we need to parse them.
+    //
+    // Skip non-function tool calls (we only support function tools)
+    const calls: ParsedToolCall[] = toolCalls.flatMap((toolCall) =>
+      toolCall.type === "function"
+        ? [{ id: toolCall.id, name: toolCall.function.name, args: parseToolArguments(toolCall.function.arguments) }]
+        : []
+    );
+
+    // =====================================================================
+    // STEP 8b: EXECUTE THE TOOLS
+    // =====================================================================
+    // Actually run the tools! This is where real work happens:
+    //   - read_file: reads from disk
+    //   - write_file: writes to disk
+    //   - edit_file: applies search/replace edits
+    //   - list_directory: lists files
+    //   - run_command: executes shell commands
+    //
+    // Read-only calls next to each other run in parallel (reading eight files
+    // shouldn't take eight round trips to disk in a row). Anything that can
+    // change state runs on its own, in the order the model asked for it.
+    //
     const toolResults: ChatCompletionToolMessageParam[] = [];
 
-    for (const toolCall of toolCalls) {
-      // Skip non-function tool calls (we only support function tools)
-      if (toolCall.type !== "function") {
-        continue;
+    for (const batch of batchToolCalls(calls)) {
+      // Update spinner to show which tool is running (helpful in boss mode)
+      if (options.bossMode) {
+        const running = batch.length === 1 ? batch[0].name : `${batch.length} tools`;
+        spinner.update(`[BOSS MODE] Running ${running}... (ESC to exit)`);
       }
 
-      // =====================================================================
-      // STEP 8a: PARSE THE TOOL CALL
-      // =====================================================================
-      // Extract the tool name and parse the JSON arguments.
-      // The arguments come as a string, so we need to parse them.
-      //
-      const toolName = toolCall.function.name;
-      const toolArgs = parseToolArguments(toolCall.function.arguments);
+      const results = await mapWithConcurrency(batch, config.maxParallelTools, async (call) => {
+        // After a cancel, every remaining call still needs a result for the history to stay valid
+        if (options.signal?.aborted) {
+          return { success: false, silent: true, output: "Cancelled by the user before it ran." };
+        }
+        log.tool(call.name, call.args);
+        events.onToolCall?.(call);
+        return executeTool(call.name, call.args, { signal: options.signal });
+      });
 
-      log.tool(toolName, toolArgs);
+      batch.forEach((call, index) => {
+        const result = results[index];
 
-      // =====================================================================
-      // STEP 8b: EXECUTE THE TOOL
-      // =====================================================================
-      // Actually run the tool! This is where real work happens:
-      //   - read_file: reads from disk
-      //   - write_file: writes to disk
-      //   - list_directory: lists files
-      //   - run_command: executes shell commands
-      //
-      // Update spinner to show which tool is running (helpful in boss mode)
-      if (options.bossMode) {
-        spinner.update(`[BOSS MODE] Running ${toolName}... (ESC to exit)`);
-      }
+        // Tool output goes to the model provider - strip API keys, tokens and .env values first
+        const redacted = redactSecrets(result.output);
+        if (redacted.count > 0) {
+          log.debug(`Redacted ${redacted.count} secret(s) from ${call.name} output`);
+        }
 
-      const result = await executeTool(toolName, toolArgs);
+        // A single huge result (a big file, a long log) shouldn't fill the context window
+        const limited = limitToolOutput(redacted.text);
+        if (limited.truncated) {
+          log.debug(`Truncated ${call.name} output from ${redacted.text.length} to ${limited.text.length} chars`);
+        }
+
+        events.onToolResult?.(call, { ...result, output: limited.text });
 
-      if (!result.silent) {
-        if (result.success) {
-          log.result(result.output);
-        } else {
-          log.error(result.output);
+        if (!result.silent) {
+          if (result.success) {
+            log.result(redacted.text);
+          } else {
+            log.error(redacted.text);
+          }
         }
-      }
 
-      // =====================================================================
-      // STEP 8c: FORMAT THE RESULT FOR THE LLM
-      // =====================================================================
-      // We create a "tool" message that pairs the result with the original
-      // tool call ID. This is how the LLM knows which result goes with which call.
-      //
-      // Structure:
-      //   {
-      //     role: "tool",           // Special role for tool results
-      //     tool_call_id: "...",    // Matches the original request
-      //     content: "..."          // The actual result/output
-      //   }
-      //
-      toolResults.push({
-        role: "tool",
-        tool_call_id: toolCall.id,
-        content: result.output,
+        // =================================================================
+        // STEP 8c: FORMAT THE RESULT FOR THE LLM
+        // =================================================================
+        // We create a "tool" message that pairs the result with the original
+        // tool call ID. This is how the LLM knows which result goes with which call.
+        // Results are added in the order the calls were made, however they ran.
+        //
+        // Structure:
+        //   {
+        //     role: "tool",           // Special role for tool results
+        //     tool_call_id: "...",    // Matches the original request
+        //     content: "..."          // The actual result/output
+        //   }
+        //
+        toolResults.push({
+          role: "tool",
+          tool_call_id: call.id,
+          content: limited.text,
+        });
       });
     }
 
@@ -376,6 +548,12 @@ export async function runAgentLoop(
     //
     conversation.addToolResults(toolResults);
 
+    if (options.signal?.aborted) {
+      spinner.stop();
+      log.step("Tool calls cancelled");
+      return CANCELLED_RESPONSE;
+    }
+
     log.step("Sending tool results back to LLM...");
 
     // Reset spinner for next LLM call
@@ -406,6 +584,7 @@ export async function runAgentLoop(
   //
   spinner.stop();
   log.error(`Hit maximum iterations (${maxIterations})`);
+  events.onIterationLimit?.(maxIterations);
   const messages = conversation.getMessages();
   const lastMessage = messages[messages.length - 1];
   if (
@@ -0,0 +1,129 @@
+/**
+ * Secret Redaction
+ *
+ * Tool output is sent to the model provider, so anything that looks like a
+ * credential is replaced before it is added to the conversation. Each distinct
+ * secret gets a stable placeholder (e.g. [REDACTED:api_key#1]) for the whole
+ * session, so the model can still tell two keys apart without seeing either.
+ */
+
+import { config, loadedEnv } from "../config.js";
+
+/**
+ * A secret format recognised in free text.
+ * When the pattern has a capture group, only the captured part is replaced.
+ */
+interface SecretPattern {
+  kind: string;
+  pattern: RegExp;
+}
+
+const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    kind: "private_key",
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----/g,
+  },
+  // OpenAI, OpenRouter and Anthropic style keys
+  { kind: "api_key", pattern: /\bsk-(?:or-v1-|proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: "github_token", pattern: /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{30,}\b/g },
+  { kind: "github_token", pattern: /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g },
+  { kind: "aws_access_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: "slack_token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { kind: "google_api_key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: "stripe_key", pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { kind: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  // KEY=value lines from env output and dotenv files, where the name says it's a secret
+  {
+    kind: "secret",
+    pattern: /^\s*(?:export\s+)?[A-Z0-9_]*(?:KEY|SECRET|TOKEN|PASSWORD|PASSWD|CREDENTIALS?)[A-Z0-9_]*\s*=\s*["']?([^\s"'#]{8,})/gm,
+  },
+];
+
+// Env variable names that hold Cody settings rather than credentials
+const NON_SECRET_ENV = /^CODY_(?!.*(?:KEY|SECRET|TOKEN|PASSWORD))/;
+
+/**
+ * Check whether a loaded env value is worth redacting (skips flags, numbers and short values).
+ */
+function isSecretValue(name: string, value: string): boolean {
+  if (NON_SECRET_ENV.test(name)) return false;
+  if (value.length < 8) return false;
+  return !/^(?:true|false|\d+)$/i.test(value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replaces secrets with placeholders that stay the same for the whole session.
+ */
+export class SecretRedactor {
+  private placeholders = new Map<string, string>();
+  private counters = new Map<string, number>();
+  private knownValues: string[];
+
+  /**
+   * @param knownValues - Exact strings to always redact (e.g. values from .env)
+   */
+  constructor(knownValues: string[] = []) {
+    // Longest first, so a value that contains another is replaced whole
+    this.knownValues = [...new Set(knownValues)].sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Redact every known secret and secret-looking string in `text`.
+   * Returns the redacted text and how many secrets were replaced.
+   */
+  redact(text: string): { text: string; count: number } {
+    let count = 0;
+
+    for (const value of this.knownValues) {
+      if (!text.includes(value)) continue;
+      const placeholder = this.placeholderFor(value, "env_value");
+      text = text.replace(new RegExp(escapeRegExp(value), "g"), () => {
+        count++;
+        return placeholder;
+      });
+    }
+
+    for (const { kind, pattern } of SECRET_PATTERNS) {
+      text = text.replace(pattern, (match: string, captured?: unknown) => {
+        const secret = typeof captured === "string" ? captured : match;
+        if (secret.startsWith("[REDACTED:")) return match;
+        count++;
+        return match.replace(secret, this.placeholderFor(secret, kind));
+      });
+    }
+
+    return { text, count };
+  }
+
+  private placeholderFor(secret: string, kind: string): string {
+    const existing = this.placeholders.get(secret);
+    if (existing) return existing;
+
+    const index = (this.counters.get(kind) ?? 0) + 1;
+    this.counters.set(kind, index);
+    const placeholder = `[REDACTED:${kind}#${index}]`;
+    this.placeholders.set(secret, placeholder);
+    return placeholder;
+  }
+}
+
+// One redactor per CLI run, so placeholders stay stable across the session.
+// Built on first use, once command-line options (--cwd, --config) have been applied.
+let redactor: SecretRedactor | null = null;
+
+/**
+ * Redact secrets from text before it is sent to the model.
+ */
+export function redactSecrets(text: string): { text: string; count: number } {
+  redactor ??= new SecretRedactor([
+    ...Object.entries(loadedEnv)
+      .filter(([name, value]) => isSecretValue(name, value))
+      .map(([, value]) => value),
+    ...(config.provider === "openrouter" && config.apiKey ? [config.apiKey] : []),
+  ]);
+  return redactor.redact(text);
+}
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ChatCompletionChunk } from "openai/resources/chat/completions";
+import { collectStream } from "./stream.js";
+
+type ToolCallDelta = NonNullable<ChatCompletionChunk.Choice.Delta["tool_calls"]>[number];
+
+async function* toolCallStream(fragments: ToolCallDelta[]): AsyncIterable<ChatCompletionChunk> {
+  for (const fragment of fragments) {
+    yield {
+      id: "test",
+      model: "test",
+      object: "chat.completion.chunk",
+      created: 0,
+      choices: [{ index: 0, finish_reason: null, delta: { tool_calls: [fragment] } }],
+    };
+  }
+}
+
+test("a name repeated in every fragment is kept once", async () => {
+  const completion = await collectStream(toolCallStream([
+    { index: 0, id: "call_1", function: { name: "read_file", arguments: "" } },
+    { index: 0, function: { name: "read_file", arguments: '{"path":' } },
+    { index: 0, function: { name: "read_file", arguments: '"a.ts"}' } },
+  ]));
+
+  const [call] = completion.message.tool_calls ?? [];
+  assert.equal(call.type === "function" && call.function.name, "read_file");
+  assert.equal(call.type === "function" && call.function.arguments, '{"path":"a.ts"}');
+});
+
+test("a name split across fragments is joined", async () => {
+  const completion = await collectStream(toolCallStream([
+    { index: 0, id: "call_1", function: { name: "read_" } },
+    { index: 0, function: { name: "file", arguments: "{}" } },
+  ]));
+
+  const [call] = completion.message.tool_calls ?? [];
+  assert.equal(call.type === "function" && call.function.name, "read_file");
+});
@@ -0,0 +1,249 @@
+/**
+ * Streaming Support
+ *
+ * The agent loop requests completions with `stream: true` so text can be shown
+ * as it is generated. This file turns the stream of chunks back into the same
+ * assistant message a non-streaming request would return, and splits the text
+ * into thinking and response parts as it arrives.
+ */
+
+import type {
+  ChatCompletionChunk,
+  ChatCompletionMessage,
+  ChatCompletionMessageFunctionToolCall,
+} from "openai/resources/chat/completions";
+import type { CompletionUsage } from "openai/resources/completions";
+
+/**
+ * A piece of streamed text, tagged with which part of the response it belongs to.
+ */
+export interface TextSegment {
+  type: "thinking" | "response";
+  text: string;
+}
+
+/**
+ * Callbacks for rendering a response while it streams.
+ */
+export interface StreamHandlers {
+  /** Called with each new piece of visible text */
+  onText: (segment: TextSegment) => void;
+  /** Called when a completion finishes streaming (there may be more after tool calls) */
+  onEnd: () => void;
+}
+
+/**
+ * Everything collected from one streamed completion.
+ */
+export interface StreamedCompletion {
+  id: string;
+  model: string;
+  message: ChatCompletionMessage;
+  finishReason: string | null;
+  usage: CompletionUsage | null;
+}
+
+const THINK_OPEN = "<think>";
+const THINK_CLOSE = "</think>";
+
+/**
+ * Split a finished response into its thinking and the answer:
+ * - <think>...</think> blocks are thinking
+ * - text before a </think> with no opening tag is thinking too (some local models skip it)
+ */
+export function splitThinking(content: string): { thinking: string; response: string } {
+  // Case 1: Full <think>...</think> blocks
+  const fullMatch = content.match(/<think>([\s\S]*?)<\/think>/);
+  if (fullMatch) {
+    return {
+      thinking: fullMatch[1].trim(),
+      response: content.replace(/<think>[\s\S]*?<\/think>/g, "").trim(),
+    };
+  }
+
+  // Case 2: Everything before </think> (when opening tag is missing)
+  const partialMatch = content.match(/^([\s\S]*?)<\/think>/);
+  if (partialMatch) {
+    return {
+      thinking: partialMatch[1].trim(),
+      response: content.replace(/^[\s\S]*?<\/think>/g, "").trim(),
+    };
+  }
+
+  return { thinking: "", response: content };
+}
+
+/**
+ * Length of the longest suffix of `text` that is a prefix of `tag`,
+ * i.e. how much to hold back in case a tag is split across chunks.
+ */
+function partialTagLength(text: string, tag: string): number {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Splits streamed content into thinking and response segments, mirroring
+ * splitThinking:
+ * - <think>...</think> blocks are thinking
+ * - text before a </think> with no opening tag is thinking too (some local models skip it)
+ *
+ * Because of the second case, text that doesn't open with <think> can't be
+ * classified until </think> shows up or the stream ends. When thinking is
+ * hidden, that text is held back so reasoning never leaks into the response.
+ * When thinking is shown, it is streamed as response text straight away (most
+ * models never send </think>), and whatever is still held back when </think>
+ * arrives is labelled thinking.
+ */
+export class ThinkingFilter {
+  private pending = "";
+  private state: "start" | "thinking" | "undecided" | "response" = "start";
+
+  constructor(
+    private readonly showThinking: boolean,
+    private readonly emit: (segment: TextSegment) => void
+  ) {}
+
+  push(delta: string): void {
+    this.pending += delta;
+
+    while (this.pending) {
+      if (this.state === "start") {
+        const trimmed = this.pending.trimStart();
+        if (trimmed === "") return;
+        if (trimmed.startsWith(THINK_OPEN)) {
+          this.pending = trimmed.slice(THINK_OPEN.length);
+          this.state = "thinking";
+          continue;
+        }
+        if (THINK_OPEN.startsWith(trimmed)) return; // Could still become <think>
+        this.state = "undecided";
+        continue;
+      }
+
+      if (this.state === "response") {
+        const open = this.pending.indexOf(THINK_OPEN);
+        if (open !== -1) {
+          this.output("response", this.pending.slice(0, open));
+          this.pending = this.pending.slice(open + THINK_OPEN.length);
+          this.state = "thinking";
+          continue;
+        }
+        const hold = partialTagLength(this.pending, THINK_OPEN);
+        this.output("response", this.pending.slice(0, this.pending.length - hold));
+        this.pending = this.pending.slice(this.pending.length - hold);
+        return;
+      }
+
+      // "thinking" and "undecided" both end at </think>
+      const close = this.pending.indexOf(THINK_CLOSE);
+      if (close !== -1) {
+        this.output("thinking", this.pending.slice(0, close));
+        this.pending = this.pending.slice(close + THINK_CLOSE.length).replace(/^\s+/, "");
+        this.state = "response";
+        continue;
+      }
+
+      // Undecided text is held back when thinking is hidden, in case it turns out to be thinking
+      if (this.state === "undecided" && !this.showThinking) return;
+
+      const hold = partialTagLength(this.pending, THINK_CLOSE);
+      this.output(this.state === "thinking" ? "thinking" : "response", this.pending.slice(0, this.pending.length - hold));
+      this.pending = this.pending.slice(this.pending.length - hold);
+      return;
+    }
+  }
+
+  /**
+   * Flush whatever is left once the stream is done.
+   */
+  end(): void {
+    const rest = this.state === "start" ? this.pending.trimStart() : this.pending;
+    this.pending = "";
+    // Undecided text never hit </think>, so it was the response all along
+    this.output(this.state === "thinking" ? "thinking" : "response", rest);
+  }
+
+  private output(type: TextSegment["type"], text: string): void {
+    if (!text) return;
+    if (type === "thinking" && !this.showThinking) return;
+    this.emit({ type, text });
+  }
+}
+
+/**
+ * Consume a completion stream, calling `onContent` for each content delta,
+ * and assemble the final assistant message. Tool calls arrive as fragments
+ * keyed by index: the id and name come first, the JSON arguments in pieces.
+ */
+export async function collectStream(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  onContent?: (delta: string) => void
+): Promise<StreamedCompletion> {
+  let id = "";
+  let model = "";
+  let content = "";
+  let refusal = "";
+  let finishReason: string | null = null;
+  let usage: CompletionUsage | null = null;
+  let sawChoice = false;
+  const toolCalls: ChatCompletionMessageFunctionToolCall[] = [];
+
+  for await (const chunk of stream) {
+    id ||= chunk.id;
+    model ||= chunk.model;
+    if (chunk.usage) usage = chunk.usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+    sawChoice = true;
+
+    const delta = choice.delta ?? {};
+    if (delta.content) {
+      content += delta.content;
+      onContent?.(delta.content);
+    }
+    if (delta.refusal) {
+      refusal += delta.refusal;
+    }
+
+    for (const fragment of delta.tool_calls ?? []) {
+      const call = (toolCalls[fragment.index] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (fragment.id) call.id = fragment.id;
+      // Some servers repeat the whole name in every fragment - only append new pieces
+      const name = fragment.function?.name;
+      if (name && name !== call.function.name) call.function.name += name;
+      if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+    }
+
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+  }
+
+  if (!sawChoice) {
+    throw new Error("No response from LLM - context may be too large");
+  }
+
+  // Indexes can have gaps; some local servers also omit ids entirely
+  const calls = toolCalls
+    .filter(Boolean)
+    .map((call, index) => ({ ...call, id: call.id || `call_${index}` }));
+
+  const message: ChatCompletionMessage = {
+    role: "assistant",
+    content: content || null,
+    refusal: refusal || null,
+  };
+  if (calls.length > 0) {
+    message.tool_calls = calls;
+  }
+
+  return { id, model, message, finishReason, usage };
+}
@@ -0,0 +1,125 @@
+/**
+ * Token Accounting
+ *
+ * Rough token counts for messages, and the context window of the active model.
+ * Providers don't expose their tokenizers, so text is estimated at ~4
+ * characters per token. The conversation corrects the estimate with the real
+ * `usage` numbers returned by each response.
+ */
+
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { config } from "../config.js";
+import { HeadTailBuffer } from "../utils/outputBuffer.js";
+
+// Average characters per token for English text and code
+const CHARS_PER_TOKEN = 4;
+
+// Role markers and separators the API adds around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Largest share of the prompt budget a single tool result may take
+const TOOL_OUTPUT_SHARE = 0.25;
+
+// Used when the model isn't recognised - small enough for most local models
+const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+// Matched against the model name in order, first match wins
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/claude/i, 200_000],
+  [/gemini/i, 1_000_000],
+  [/gpt-4\.1/i, 1_000_000],
+  [/gpt-4o|gpt-4-turbo|o[134]-|gpt-5/i, 128_000],
+  [/qwen3-coder/i, 262_144],
+  [/qwen/i, 32_768],
+  [/mimo-v2/i, 262_144],
+  [/deepseek/i, 128_000],
+  [/nemotron/i, 128_000],
+  [/llama-3|llama3/i, 128_000],
+];
+
+/**
+ * Estimate the number of tokens in a piece of text.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the tokens one message takes up in a prompt, including tool calls.
+ */
+export function estimateMessageTokens(message: ChatCompletionMessageParam): number {
+  let text = "";
+
+  if (typeof message.content === "string") {
+    text += message.content;
+  } else if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      if ("text" in part) text += part.text;
+    }
+  }
+
+  if (message.role === "assistant" && message.tool_calls) {
+    for (const call of message.tool_calls) {
+      if (call.type === "function") {
+        text += call.function.name + call.function.arguments;
+      }
+    }
+  }
+
+  return estimateTokens(text) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimate the tokens a list of messages takes up in a prompt.
+ */
+export function estimateMessagesTokens(messages: ChatCompletionMessageParam[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+/**
+ * Context window of the active model, in tokens.
+ * CODY_CONTEXT_WINDOW overrides the built-in table.
+ */
+export function getContextWindow(model: string = config.model): number {
+  if (config.contextWindow > 0) {
+    return config.contextWindow;
+  }
+  const match = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Tokens available for the prompt: the context window minus room for the response.
+ */
+export function getPromptBudget(model: string = config.model): number {
+  const window = getContextWindow(model);
+  return Math.max(window - Math.min(config.maxTokens, Math.floor(window / 2)), 1);
+}
+
+/**
+ * Cut a tool result down to its share of the prompt budget, keeping the
+ * beginning and the end. One huge file or log shouldn't overflow the context.
+ */
+export function limitToolOutput(text: string): { text: string; truncated: boolean } {
+  const maxChars = Math.floor(getPromptBudget() * TOOL_OUTPUT_SHARE * CHARS_PER_TOKEN);
+  if (text.length <= maxChars) {
+    return { text, truncated: false };
+  }
+
+  const buffer = new HeadTailBuffer(maxChars);
+  buffer.append(text);
+  return {
+    text: `${buffer.toString()}\n\n[Output truncated to fit the context window - ` +
+      "read smaller ranges (offset/limit) or narrow the search to see the rest]",
+    truncated: true,
+  };
+}
+
+/**
+ * Format a token count for display, e.g. 12345 -> "12.3k".
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1).replace(/\.0$/, "")}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1).replace(/\.0$/, "")}k`;
+  return String(tokens);
+}
@@ -0,0 +1,143 @@
+/**
+ * File Checkpoints
+ *
+ * Every file change made through write_file, edit_file or apply_patch is
+ * recorded here, grouped by user turn: the content before Cody first touched
+ * the file in that turn, and the content it last wrote. /undo and /rewind put
+ * the old content back. Snapshots are kept in memory, so this works in any
+ * directory - git isn't needed.
+ *
+ * Changes made by shell commands (run_command, start_process) can't be seen
+ * here and aren't reverted.
+ */
+
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+
+// Oldest turns are dropped beyond this
+const MAX_CHECKPOINTS = 50;
+
+/**
+ * A file as it was before and after one turn. null means the file didn't exist.
+ */
+interface FileSnapshot {
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * The file changes made during one user turn.
+ */
+export interface Checkpoint {
+  /** 1-based turn number, stable for the session */
+  id: number;
+  /** The user message that started the turn */
+  prompt: string;
+  createdAt: Date;
+  /** Conversation length before the user message was added */
+  messageIndex: number;
+  /** Keyed by absolute path */
+  files: Map<string, FileSnapshot>;
+}
+
+/**
+ * Outcome of restoring files.
+ */
+export interface RestoreResult {
+  restored: string[];
+  /** Files changed outside Cody since it wrote them - left alone */
+  skipped: string[];
+}
+
+const checkpoints: Checkpoint[] = [];
+let nextId = 1;
+
+/**
+ * Start a new checkpoint for a user turn. File changes are recorded into it until the next turn.
+ */
+export function beginCheckpoint(prompt: string, messageIndex: number): void {
+  checkpoints.push({ id: nextId++, prompt, createdAt: new Date(), messageIndex, files: new Map() });
+  if (checkpoints.length > MAX_CHECKPOINTS) {
+    checkpoints.shift();
+  }
+}
+
+/**
+ * Record a file change in the current checkpoint. Only the first "before" per
+ * turn is kept, so the checkpoint always holds the content from before the turn.
+ */
+export function recordFileChange(path: string, before: string | null, after: string | null): void {
+  const current = checkpoints[checkpoints.length - 1];
+  if (!current) return;
+
+  const key = resolve(path);
+  const existing = current.files.get(key);
+  current.files.set(key, { before: existing ? existing.before : before, after });
+}
+
+/**
+ * All checkpoints, oldest first.
+ */
+export function listCheckpoints(): Checkpoint[] {
+  return [...checkpoints];
+}
+
+async function readIfExists(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Put the files of one checkpoint back to their "before" content.
+ */
+async function restoreCheckpoint(checkpoint: Checkpoint, result: RestoreResult): Promise<void> {
+  for (const [path, snapshot] of checkpoint.files) {
+    if ((await readIfExists(path)) !== snapshot.after) {
+      result.skipped.push(path);
+      continue;
+    }
+
+    if (snapshot.before === null) {
+      await unlink(path).catch(() => {});
+    } else {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, snapshot.before, "utf-8");
+    }
+    result.restored.push(path);
+  }
+  checkpoint.files.clear();
+}
+
+/**
+ * Revert the file changes of the most recent turn that changed files.
+ * Returns null when there is nothing to undo.
+ */
+export async function undoLastCheckpoint(): Promise<(RestoreResult & { checkpoint: Checkpoint }) | null> {
+  const checkpoint = [...checkpoints].reverse().find((c) => c.files.size > 0);
+  if (!checkpoint) return null;
+
+  const result: RestoreResult = { restored: [], skipped: [] };
+  await restoreCheckpoint(checkpoint, result);
+  return { ...result, checkpoint };
+}
+
+/**
+ * Revert every turn from checkpoint `id` onwards (newest first) and forget them.
+ * Returns null when no checkpoint has that id.
+ */
+export async function rewindToCheckpoint(id: number): Promise<(RestoreResult & { checkpoint: Checkpoint }) | null> {
+  const index = checkpoints.findIndex((c) => c.id === id);
+  if (index === -1) return null;
+
+  const checkpoint = checkpoints[index];
+  const result: RestoreResult = { restored: [], skipped: [] };
+  for (const later of checkpoints.slice(index).reverse()) {
+    await restoreCheckpoint(later, result);
+  }
+  checkpoints.splice(index);
+  return { ...result, checkpoint };
+}
@@ -0,0 +1,236 @@
+/**
+ * Command-Line Options
+ *
+ * Parses `process.argv` with Node's built-in parser and checks every value,
+ * so a typo fails straight away with a message saying what was expected.
+ * Options that change the config (--model, --base-url, ...) are returned as
+ * ConfigOverrides and take precedence over the environment and config files.
+ */
+
+import { readFile } from "fs/promises";
+import { statSync } from "fs";
+import { resolve } from "path";
+import { parseArgs } from "util";
+import {
+  APPROVAL_MODES,
+  PROVIDER_NAMES,
+  type ApprovalMode,
+  type ConfigOverrides,
+  type ProviderName,
+} from "./config.js";
+import { APPROVAL_POLICIES, OUTPUT_FORMATS, type ApprovalPolicy, type OutputFormat } from "./headless.js";
+
+export interface CliOptions {
+  help: boolean;
+  version: boolean;
+  debug: boolean;
+  bossMode: boolean;
+  approvalMode?: ApprovalMode;
+  resume?: string;
+  continue: boolean;
+  /** Run one prompt without the REPL (see headless.ts) */
+  print: boolean;
+  prompt?: string;
+  /** A "-" argument asked for stdin to be added to the prompt */
+  readStdin: boolean;
+  outputFormat: OutputFormat;
+  approvalPolicy: ApprovalPolicy;
+  /** Directory to work in, already resolved and checked */
+  cwd?: string;
+  config: ConfigOverrides;
+}
+
+const OPTIONS = {
+  help: { type: "boolean", short: "h" },
+  version: { type: "boolean", short: "v" },
+  model: { type: "string", short: "m" },
+  provider: { type: "string" },
+  "base-url": { type: "string" },
+  "max-iterations": { type: "string" },
+  temperature: { type: "string" },
+  "max-tokens": { type: "string" },
+  cwd: { type: "string" },
+  config: { type: "string" },
+  debug: { type: "boolean" },
+  mode: { type: "string" },
+  boss: { type: "boolean" },
+  resume: { type: "string" },
+  continue: { type: "boolean", short: "c" },
+  print: { type: "boolean", short: "p" },
+  "output-format": { type: "string" },
+  "approval-policy": { type: "string" },
+} as const;
+
+export const HELP_TEXT = `Usage: cody [options]
+       cody -p "<prompt>" [options]
+
+Cody is a coding agent that works in the current directory.
+
+Model:
+  -m, --model <name>          Model to use (env: CODY_MODEL)
+      --provider <name>       ${PROVIDER_NAMES.join(" or ")} (default: openrouter when OPENROUTER_API_KEY is set)
+      --base-url <url>        OpenAI-compatible API endpoint
+      --temperature <n>       Sampling temperature, 0-2 (default: 0.1)
+      --max-tokens <n>        Maximum tokens per response (default: 8192)
+      --max-iterations <n>    Model requests per turn before stopping (default: 10)
+
+Session:
+      --cwd <dir>             Work in this directory instead of the current one
+      --config <file>         Read settings from this file instead of ~/.codyrc
+      --mode <mode>           Approval mode for file changes: ${APPROVAL_MODES.join(", ")}
+      --boss                  Start in boss mode
+  -c, --continue              Resume the latest session in this directory
+      --resume <id|file>      Resume a saved session
+      --debug                 Show extra logs
+
+Headless:
+  -p, --print [prompt] [-]    Run one prompt and exit (with no prompt, or with -, stdin is read too)
+      --output-format <fmt>   ${OUTPUT_FORMATS.join(", ")} (default: text)
+      --approval-policy <p>   What to do when a tool needs approval: ${APPROVAL_POLICIES.join(", ")} (default: deny)
+
+  -h, --help                  Show this help
+  -v, --version               Show the version
+
+Command-line options take precedence over environment variables, which take
+precedence over .env and ~/.codyrc.`;
+
+/**
+ * Check that `value` is one of `choices`.
+ */
+function oneOf<T extends string>(option: string, value: string, choices: readonly T[]): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(`Invalid ${option} "${value}" - use one of: ${choices.join(", ")}`);
+  }
+  return value as T;
+}
+
+function parseInteger(option: string, value: string, min: number): number {
+  const number = Number(value);
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(number) || number < min) {
+    throw new Error(`Invalid ${option} "${value}" - expected a whole number of at least ${min}`);
+  }
+  return number;
+}
+
+function parseNumberInRange(option: string, value: string, min: number, max: number): number {
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number) || number < min || number > max) {
+    throw new Error(`Invalid ${option} "${value}" - expected a number from ${min} to ${max}`);
+  }
+  return number;
+}
+
+function parseUrl(option: string, value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid ${option} "${value}" - expected a URL like http://localhost:1234/v1`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Invalid ${option} "${value}" - only http and https URLs are supported`);
+  }
+  return value;
+}
+
+/**
+ * Resolve a path and check it exists and is the right kind.
+ */
+function existingPath(option: string, value: string, kind: "file" | "directory"): string {
+  const path = resolve(value);
+  let stats;
+  try {
+    stats = statSync(path);
+  } catch {
+    throw new Error(`Invalid ${option} "${value}" - no such ${kind}`);
+  }
+  if (kind === "directory" ? !stats.isDirectory() : !stats.isFile()) {
+    throw new Error(`Invalid ${option} "${value}" - not a ${kind}`);
+  }
+  return path;
+}
+
+/**
+ * Parse and check the command line. Throws an Error with a readable message
+ * for unknown options and bad values.
+ */
+export function parseCliArgs(argv: string[] = process.argv.slice(2)): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (error) {
+    // Node's messages are fine, but drop the "To specify a positional argument..." hints
+    const message = error instanceof Error ? error.message.split(". To ")[0] : String(error);
+    throw new Error(message);
+  }
+  const { values, positionals } = parsed;
+
+  const print = values.print ?? false;
+  if (positionals.length > 0 && !print) {
+    throw new Error(`Unexpected argument "${positionals[0]}" - to run a single prompt use cody -p "<prompt>"`);
+  }
+  if (!print) {
+    for (const option of ["output-format", "approval-policy"] as const) {
+      if (values[option] !== undefined) {
+        throw new Error(`--${option} only applies with -p/--print`);
+      }
+    }
+  }
+  if (print && values.boss) {
+    throw new Error("--boss can't be combined with -p/--print");
+  }
+  if (values.resume !== undefined && values.continue) {
+    throw new Error("Use either --resume or --continue, not both");
+  }
+
+  const prompt = positionals.filter((word) => word !== "-");
+
+  const config: ConfigOverrides = {};
+  if (values.model !== undefined) {
+    if (!values.model.trim()) throw new Error("--model needs a model name");
+    config.model = values.model.trim();
+  }
+  if (values.provider !== undefined) {
+    config.provider = oneOf<ProviderName>("--provider", values.provider, PROVIDER_NAMES);
+  }
+  if (values["base-url"] !== undefined) {
+    config.baseUrl = parseUrl("--base-url", values["base-url"]);
+  }
+  if (values["max-iterations"] !== undefined) {
+    config.maxIterations = parseInteger("--max-iterations", values["max-iterations"], 1);
+  }
+  if (values.temperature !== undefined) {
+    config.temperature = parseNumberInRange("--temperature", values.temperature, 0, 2);
+  }
+  if (values["max-tokens"] !== undefined) {
+    config.maxTokens = parseInteger("--max-tokens", values["max-tokens"], 1);
+  }
+  if (values.config !== undefined) {
+    config.configFile = existingPath("--config", values.config, "file");
+  }
+
+  return {
+    help: values.help ?? false,
+    version: values.version ?? false,
+    debug: values.debug ?? false,
+    bossMode: values.boss ?? false,
+    approvalMode: values.mode !== undefined ? oneOf("--mode", values.mode, APPROVAL_MODES) : undefined,
+    resume: values.resume,
+    continue: values.continue ?? false,
+    print,
+    prompt: prompt.length > 0 ? prompt.join(" ") : undefined,
+    readStdin: positionals.includes("-"),
+    outputFormat: oneOf("--output-format", values["output-format"] ?? "text", OUTPUT_FORMATS),
+    approvalPolicy: oneOf("--approval-policy", values["approval-policy"] ?? "deny", APPROVAL_POLICIES),
+    cwd: values.cwd !== undefined ? existingPath("--cwd", values.cwd, "directory") : undefined,
+    config,
+  };
+}
+
+/**
+ * The version from package.json.
+ */
+export async function getVersion(): Promise<string> {
+  const pkg = JSON.parse(await readFile(new URL("../package.json", import.meta.url), "utf-8")) as { version: string };
+  return pkg.version;
+}
@@ -1,12 +1,38 @@
 import dotenv from "dotenv";
 import { homedir } from "os";
-import { join } from "path";
+import { join, delimiter } from "path";
 
-// Load config files (later loads override earlier ones)
-// 1. Global config: ~/.codyrc
-// 2. Local config: .env in current directory
-dotenv.config({ path: join(homedir(), ".codyrc") });
-dotenv.config(); // loads .env from cwd
+// The environment before any config file was loaded - these always win over the files
+const processEnv = new Set(Object.keys(process.env));
+
+/**
+ * Variables loaded from ~/.codyrc and .env. Their values are treated as secrets
+ * and redacted from tool output before it reaches the model.
+ */
+export const loadedEnv: Record<string, string> = {};
+
+/**
+ * Load config files into process.env, replacing anything an earlier load added.
+ * 1. Global config: ~/.codyrc (or the --config file)
+ * 2. Local config: .env in the current directory
+ */
+function loadEnvFiles(configFile: string | undefined, quiet: boolean): void {
+  for (const name of Object.keys(loadedEnv)) {
+    if (!processEnv.has(name)) delete process.env[name];
+    delete loadedEnv[name];
+  }
+
+  const globalEnv = dotenv.config({ path: configFile ?? join(homedir(), ".codyrc"), quiet });
+  if (configFile && globalEnv.error) {
+    throw new Error(`Could not read config file ${configFile}: ${globalEnv.error.message}`);
+  }
+  const localEnv = dotenv.config({ quiet }); // loads .env from cwd
+
+  Object.assign(loadedEnv, globalEnv.parsed, localEnv.parsed);
+}
+
+// Silent here: the CLI reloads once it has read --cwd and --config, and that load is reported
+loadEnvFiles(undefined, true);
 
 /**
  * Configuration for Cody CLI
@@ -16,57 +42,158 @@ dotenv.config(); // loads .env from cwd
  * 2. LM Studio (local) - Default when no API key is set
  *
  * Config is loaded from (in order of priority):
+ * - Command-line options (see cli.ts)
  * - Environment variables
  * - .env in current directory
  * - ~/.codyrc (global config)
  */
 
-const useOpenRouter = !!process.env.OPENROUTER_API_KEY;
-
-const providers = {
-  openrouter: {
-    baseUrl: "https://openrouter.ai/api/v1",
-    defaultModel: "xiaomi/mimo-v2-flash:free",
-    apiKey: process.env.OPENROUTER_API_KEY!,
-  },
-  lmstudio: {
-    baseUrl: "http://localhost:1234/v1",
-    defaultModel: "nvidia-nemotron-3-nano-30b-a3b-mlx",
-    apiKey: "lm-studio", // LM Studio doesn't need a real key
-  },
-};
+export type ProviderName = "openrouter" | "lmstudio";
 
-const provider = useOpenRouter ? providers.openrouter : providers.lmstudio;
-
-export const config = {
-  baseUrl: provider.baseUrl,
-  model: process.env.CODY_MODEL || provider.defaultModel,
-  apiKey: provider.apiKey,
-  // Low temperature for deterministic, correct code (0.0-0.2 recommended for coding)
-  // Higher values (0.5+) introduce variability that can cause syntax errors
-  temperature: 0.1,
-  // Room for full file outputs and multi-step tool responses
-  // 4096 can truncate large generations; 8192-16384 safer for coding agents
-  maxTokens: 8192,
-  provider: useOpenRouter ? "openrouter" : "lmstudio",
-};
+export const PROVIDER_NAMES: ProviderName[] = ["openrouter", "lmstudio"];
+
+function getProviders() {
+  return {
+    openrouter: {
+      baseUrl: "https://openrouter.ai/api/v1",
+      defaultModel: "xiaomi/mimo-v2-flash:free",
+      apiKey: process.env.OPENROUTER_API_KEY!,
+    },
+    lmstudio: {
+      baseUrl: "http://localhost:1234/v1",
+      defaultModel: "nvidia-nemotron-3-nano-30b-a3b-mlx",
+      apiKey: "lm-studio", // LM Studio doesn't need a real key
+    },
+  };
+}
+
+/**
+ * Read a non-negative integer from the environment, falling back when unset or invalid.
+ */
+function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Settings given on the command line. They take precedence over the
+ * environment and the config files.
+ */
+export interface ConfigOverrides {
+  model?: string;
+  provider?: ProviderName;
+  baseUrl?: string;
+  maxIterations?: number;
+  temperature?: number;
+  maxTokens?: number;
+  /** Read instead of ~/.codyrc */
+  configFile?: string;
+}
+
+function buildConfig(overrides: ConfigOverrides = {}) {
+  const providerName = overrides.provider ?? (process.env.OPENROUTER_API_KEY ? "openrouter" : "lmstudio");
+  const provider = getProviders()[providerName];
+  if (providerName === "openrouter" && !provider.apiKey) {
+    throw new Error("The openrouter provider needs OPENROUTER_API_KEY (set it in the environment, .env or ~/.codyrc)");
+  }
+
+  return {
+    baseUrl: overrides.baseUrl ?? provider.baseUrl,
+    model: overrides.model ?? (process.env.CODY_MODEL || provider.defaultModel),
+    apiKey: provider.apiKey,
+    // Low temperature for deterministic, correct code (0.0-0.2 recommended for coding)
+    // Higher values (0.5+) introduce variability that can cause syntax errors
+    temperature: overrides.temperature ?? 0.1,
+    // Room for full file outputs and multi-step tool responses
+    // 4096 can truncate large generations; 8192-16384 safer for coding agents
+    maxTokens: overrides.maxTokens ?? 8192,
+    // Model requests per turn before the loop gives up (boss mode has no limit)
+    maxIterations: overrides.maxIterations ?? Math.max(1, readLimit("CODY_MAX_ITERATIONS", 10)),
+    provider: providerName,
+    // File tools are confined to these directories (cwd is always included)
+    // CODY_WORKSPACE_ROOTS takes extra roots separated by ":" (";" on Windows)
+    workspaceRoots: [
+      process.cwd(),
+      ...(process.env.CODY_WORKSPACE_ROOTS || "").split(delimiter).filter(Boolean),
+    ],
+    // When true, paths outside the workspace prompt for approval instead of being rejected
+    allowOutsideWorkspace: process.env.CODY_ALLOW_OUTSIDE_WORKSPACE === "true",
+    // Resource limits for run_command and start_process, applied as rlimits (0 disables a limit)
+    commandLimits: {
+      // Data segment (heap) per process; off by default since builds differ so much
+      memoryMb: readLimit("CODY_LIMIT_MEMORY_MB", 0),
+      // CPU time per process (wall-clock timeouts are separate)
+      cpuSeconds: readLimit("CODY_LIMIT_CPU_SECONDS", 300),
+      // Processes for the user, which stops fork bombs
+      maxProcesses: readLimit("CODY_LIMIT_PROCESSES", 2048),
+      // Command output kept for the model; the middle is dropped beyond this
+      maxOutputChars: readLimit("CODY_LIMIT_OUTPUT_CHARS", 100_000),
+    },
+    // Context window in tokens (0 picks it from the model name - see agent/tokens.ts)
+    contextWindow: readLimit("CODY_CONTEXT_WINDOW", 0),
+    // Read-only tool calls from one response run this many at a time (1 runs everything in order)
+    maxParallelTools: Math.max(1, readLimit("CODY_MAX_PARALLEL_TOOLS", 4)),
+  };
+}
+
+export const config = buildConfig();
+
+/**
+ * Re-read the config files and rebuild the config, e.g. after --cwd or --config.
+ * The config object is updated in place so existing imports see the new values;
+ * the API client has to be re-created separately (see agent/client.ts).
+ *
+ * @param options.quiet - Don't print which files were loaded (headless output must stay clean)
+ */
+export function reloadConfig(overrides: ConfigOverrides = {}, options: { quiet?: boolean } = {}): void {
+  loadEnvFiles(overrides.configFile, options.quiet ?? false);
+  Object.assign(config, buildConfig(overrides));
+}
 
 /**
  * Approval response from user when a blocked command is detected.
+ * "always" is only offered when the request sets `always`.
  */
 export type ApprovalResponse =
   | { action: "yes" }
   | { action: "no" }
+  | { action: "always" }
   | { action: "instruct"; message: string };
 
+/**
+ * Extra information shown with an approval prompt.
+ */
+export interface ApprovalOptions {
+  /** Shown above the options, e.g. a diff of the pending change */
+  details?: string;
+  /** Label for an extra "always allow" choice (omit to not offer it) */
+  always?: string;
+}
+
 /**
  * Callback for handling approval requests.
  */
 export type ApprovalCallback = (
   blockedItem: string,
-  reason: string
+  reason: string,
+  options?: ApprovalOptions
 ) => Promise<ApprovalResponse>;
 
+/**
+ * How file writes are confirmed:
+ * - suggest: every write is shown as a diff and must be approved
+ * - auto-edit: writes are applied and the diff is shown
+ * - full-auto: writes are applied silently
+ */
+export type ApprovalMode = "suggest" | "auto-edit" | "full-auto";
+
+export const APPROVAL_MODES: ApprovalMode[] = ["suggest", "auto-edit", "full-auto"];
+
+/**
+ * Callback for showing a file change that was applied without asking.
+ */
+export type DiffDisplayCallback = (diff: string) => void;
+
 /**
  * Runtime settings that can be toggled during the session.
  */
@@ -76,6 +203,8 @@ export const runtimeSettings: {
   bossMode: boolean;
   bossInterrupted: boolean;
   approvalCallback: ApprovalCallback | null;
+  approvalMode: ApprovalMode;
+  diffDisplayCallback: DiffDisplayCallback | null;
 } = {
   // When true, show the model's <think>...</think> reasoning
   showThinking: true,
@@ -87,4 +216,8 @@ export const runtimeSettings: {
   bossInterrupted: false,
   // Callback for approval prompts (set by CLI)
   approvalCallback: null,
+  // How file writes are confirmed (changed with /mode or --mode)
+  approvalMode: "auto-edit",
+  // Callback for showing diffs of applied writes (set by CLI)
+  diffDisplayCallback: null,
 };
@@ -0,0 +1,283 @@
+/**
+ * Transcript Export
+ *
+ * Writes a session out as Markdown or HTML for attaching to a PR or bug
+ * report, or as JSON in the saved-session format so it can be reopened with
+ * `cody --resume <file>`. Tool results are truncated in Markdown and folded
+ * into collapsible blocks in both Markdown and HTML.
+ */
+
+import { writeFile } from "fs/promises";
+import { extname, resolve } from "path";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { splitThinking } from "./agent/stream.js";
+import type { SessionFile } from "./sessions.js";
+import { HeadTailBuffer } from "./utils/outputBuffer.js";
+
+export const EXPORT_FORMATS = ["md", "json", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Tool results longer than this keep only their start and end
+const MARKDOWN_RESULT_CHARS = 2000;
+const HTML_RESULT_CHARS = 20_000;
+
+export interface ExportOptions {
+  /** Include the model's thinking (JSON always keeps the raw messages) */
+  includeThinking: boolean;
+}
+
+/**
+ * One step of the conversation, in the order it happened.
+ */
+type TranscriptEntry =
+  | { kind: "summary"; text: string }
+  | { kind: "user"; text: string }
+  | { kind: "assistant"; thinking: string; text: string }
+  | { kind: "tool"; name: string; args: string; result: string | null };
+
+function textOf(content: ChatCompletionMessageParam["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content.map((part) => ("text" in part ? part.text : "")).join("");
+}
+
+/**
+ * Pretty-print tool arguments; models sometimes send invalid JSON, which is shown as-is.
+ */
+function formatArgs(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2);
+  } catch {
+    return args;
+  }
+}
+
+function toEntries(session: SessionFile): TranscriptEntry[] {
+  const summaryIndex = session.compaction ? session.compaction.summaryIndex - 1 : -1;
+  const results = new Map<string, string>();
+  for (const message of session.messages) {
+    if (message.role === "tool") {
+      results.set(message.tool_call_id, textOf(message.content));
+    }
+  }
+
+  const entries: TranscriptEntry[] = [];
+  session.messages.forEach((message, index) => {
+    if (message.role === "user") {
+      entries.push({ kind: index === summaryIndex ? "summary" : "user", text: textOf(message.content) });
+    } else if (message.role === "assistant") {
+      const { thinking, response } = splitThinking(textOf(message.content));
+      if (thinking || response) {
+        entries.push({ kind: "assistant", thinking, text: response });
+      }
+      for (const call of message.tool_calls ?? []) {
+        if (call.type !== "function") continue;
+        entries.push({
+          kind: "tool",
+          name: call.function.name,
+          args: formatArgs(call.function.arguments),
+          result: results.get(call.id) ?? null,
+        });
+      }
+    }
+  });
+  return entries;
+}
+
+function truncate(text: string, maxChars: number): string {
+  const buffer = new HeadTailBuffer(maxChars);
+  buffer.append(text);
+  return buffer.toString();
+}
+
+function describeResult(result: string): string {
+  const lines = result.trimEnd().split("\n").length;
+  return `Result (${lines} line${lines === 1 ? "" : "s"})`;
+}
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+/**
+ * A fenced code block whose fence can't be closed early by backticks in the text.
+ */
+function codeBlock(text: string, language = ""): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function quote(text: string): string {
+  return text.split("\n").map((line) => `> ${line}`.trimEnd()).join("\n");
+}
+
+function renderMarkdown(session: SessionFile, entries: TranscriptEntry[], options: ExportOptions): string {
+  const lines = [
+    `# Cody session ${session.id}`,
+    "",
+    `- **Model:** ${session.model} (${session.provider})`,
+    `- **Directory:** \`${session.cwd}\``,
+    `- **Started:** ${session.createdAt}`,
+    `- **Exported:** ${new Date().toISOString()}`,
+    "",
+  ];
+
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case "summary":
+        lines.push("## Summary of earlier conversation", "", entry.text, "");
+        break;
+      case "user":
+        lines.push("---", "", "## User", "", entry.text, "");
+        break;
+      case "assistant":
+        lines.push("### Cody", "");
+        if (options.includeThinking && entry.thinking) {
+          lines.push("<details><summary>Thinking</summary>", "", quote(entry.thinking), "", "</details>", "");
+        }
+        if (entry.text) {
+          lines.push(entry.text, "");
+        }
+        break;
+      case "tool":
+        lines.push(`**Tool:** \`${entry.name}\``, "", codeBlock(entry.args, "json"), "");
+        if (entry.result !== null) {
+          lines.push(
+            `<details><summary>${describeResult(entry.result)}</summary>`,
+            "",
+            codeBlock(truncate(entry.result, MARKDOWN_RESULT_CHARS)),
+            "",
+            "</details>",
+            ""
+          );
+        }
+        break;
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const HTML_STYLE = `
+  body { font: 15px/1.5 system-ui, sans-serif; max-width: 900px; margin: 2em auto; padding: 0 1em; color: #1f2328; }
+  header { color: #59636e; border-bottom: 1px solid #d1d9e0; margin-bottom: 1.5em; }
+  .entry { margin: 1em 0; }
+  .label { font-weight: 600; font-size: 13px; text-transform: uppercase; color: #59636e; }
+  .user { background: #ddf4ff; border-radius: 6px; padding: 0.5em 1em; }
+  .summary { background: #fff8c5; border-radius: 6px; padding: 0.5em 1em; }
+  .text { white-space: pre-wrap; }
+  .thinking { color: #59636e; font-style: italic; white-space: pre-wrap; }
+  pre { background: #f6f8fa; border-radius: 6px; padding: 0.75em; overflow-x: auto; font-size: 13px; }
+  details { margin: 0.25em 0 1em; }
+  summary { cursor: pointer; color: #59636e; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderHtml(session: SessionFile, entries: TranscriptEntry[], options: ExportOptions): string {
+  const body: string[] = [];
+
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case "summary":
+        body.push(`<div class="entry summary"><div class="label">Summary of earlier conversation</div>` +
+          `<div class="text">${escapeHtml(entry.text)}</div></div>`);
+        break;
+      case "user":
+        body.push(`<div class="entry user"><div class="label">User</div>` +
+          `<div class="text">${escapeHtml(entry.text)}</div></div>`);
+        break;
+      case "assistant": {
+        const parts = [`<div class="label">Cody</div>`];
+        if (options.includeThinking && entry.thinking) {
+          parts.push(`<details><summary>Thinking</summary><div class="thinking">${escapeHtml(entry.thinking)}</div></details>`);
+        }
+        if (entry.text) {
+          parts.push(`<div class="text">${escapeHtml(entry.text)}</div>`);
+        }
+        body.push(`<div class="entry">${parts.join("")}</div>`);
+        break;
+      }
+      case "tool": {
+        const parts = [
+          `<div class="label">Tool: ${escapeHtml(entry.name)}</div>`,
+          `<pre>${escapeHtml(entry.args)}</pre>`,
+        ];
+        if (entry.result !== null) {
+          parts.push(`<details><summary>${describeResult(entry.result)}</summary>` +
+            `<pre>${escapeHtml(truncate(entry.result, HTML_RESULT_CHARS))}</pre></details>`);
+        }
+        body.push(`<div class="entry">${parts.join("")}</div>`);
+        break;
+      }
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Cody session ${escapeHtml(session.id)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>Cody session ${escapeHtml(session.id)}</h1>
+<p>${escapeHtml(session.model)} (${escapeHtml(session.provider)}) in <code>${escapeHtml(session.cwd)}</code><br>
+Started ${escapeHtml(session.createdAt)}, exported ${new Date().toISOString()}</p>
+</header>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Render a session in the given format.
+ */
+export function renderTranscript(session: SessionFile, format: ExportFormat, options: ExportOptions): string {
+  if (format === "json") {
+    return JSON.stringify(session, null, 2) + "\n";
+  }
+  const entries = toEntries(session);
+  return format === "html" ? renderHtml(session, entries, options) : renderMarkdown(session, entries, options);
+}
+
+/**
+ * Guess the format from a file name, e.g. "notes.html" -> "html".
+ */
+export function formatFromPath(path: string): ExportFormat | undefined {
+  const extension = extname(path).slice(1).toLowerCase();
+  if (extension === "markdown") return "md";
+  return EXPORT_FORMATS.find((format) => format === extension);
+}
+
+/**
+ * Write a session transcript to `path` (default: cody-<id>.<format> in the
+ * current directory). Returns the absolute path written.
+ */
+export async function exportTranscript(
+  session: SessionFile,
+  format: ExportFormat,
+  path: string | undefined,
+  options: ExportOptions
+): Promise<string> {
+  const target = resolve(path || `cody-${session.id}.${format}`);
+  await writeFile(target, renderTranscript(session, format, options), "utf-8");
+  return target;
+}
@@ -0,0 +1,280 @@
+/**
+ * Headless Mode
+ *
+ * `cody -p "<prompt>"` runs a single turn without the REPL and exits, for
+ * shell scripts, git hooks and CI. The prompt comes from the argument or, when
+ * there is none, from stdin. A "-" argument reads stdin as well and appends it
+ * to the prompt. stdout carries only
+ * the output, in one of three formats:
+ * - text: the final answer
+ * - json: one object with the answer, tool-call log, token usage and status
+ * - stream-json: one JSON event per line as the turn runs, ending with the same object
+ *
+ * Everything else (logs, errors, the spinner) goes to stderr. Nobody is there
+ * to answer approval prompts, so the approval policy decides them.
+ */
+
+import { Conversation, runAgentLoop, type ParsedToolCall } from "./agent/index.js";
+import { config, runtimeSettings, type ApprovalCallback } from "./config.js";
+import { createSession, findLatestSession, findSession, saveSession, type SessionInfo } from "./sessions.js";
+import { killAllProcesses, resetShellSession } from "./tools/index.js";
+
+export const OUTPUT_FORMATS = ["text", "json", "stream-json"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * What happens when a tool would ask for approval:
+ * - deny: the request is refused and the model is told to do without it
+ * - allow: the request is approved (commands denied by policy stay denied)
+ */
+export const APPROVAL_POLICIES = ["deny", "allow"] as const;
+export type ApprovalPolicy = (typeof APPROVAL_POLICIES)[number];
+
+export const EXIT_CODES = {
+  success: 0,
+  error: 1,
+  usage: 2,
+  maxIterations: 3,
+  cancelled: 130,
+} as const;
+
+export interface HeadlessOptions {
+  /** Prompt from the command line (stdin is read when there is none) */
+  prompt?: string;
+  /** Append stdin to the prompt (the "-" argument) */
+  readStdin: boolean;
+  outputFormat: OutputFormat;
+  approvalPolicy: ApprovalPolicy;
+  /** Session id or file to continue */
+  resume?: string;
+  /** Continue the latest session in this directory */
+  continue: boolean;
+}
+
+type RunStatus = "success" | "error" | "max_iterations" | "cancelled";
+
+interface ToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  success: boolean | null;
+  output: string | null;
+}
+
+/** A request approved by the allow policy (blocked ones show up in the tool results) */
+interface ApprovalRecord {
+  request: string;
+  reason: string;
+}
+
+/**
+ * The final report, printed as-is for json and as the last event for stream-json.
+ */
+interface HeadlessResult {
+  type: "result";
+  status: RunStatus;
+  exit_code: number;
+  result: string | null;
+  error?: string;
+  session_id: string;
+  model: string;
+  provider: string;
+  tool_calls: ToolCallRecord[];
+  approvals: ApprovalRecord[];
+  usage: { requests: number; prompt_tokens: number; completion_tokens: number; total_tokens: number };
+  duration_ms: number;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8").trim();
+}
+
+/**
+ * Build the prompt from the argument and stdin. stdin is only read when it's
+ * needed, since CI runners and git hooks often leave it open with nothing coming.
+ */
+async function readPrompt(options: HeadlessOptions): Promise<string> {
+  const argument = options.prompt?.trim();
+  const wantStdin = options.readStdin || (!argument && !process.stdin.isTTY);
+  const piped = wantStdin ? await readStdin() : "";
+  return [argument, piped].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Write to stdout and wait for it to drain, so nothing is lost when the process exits.
+ */
+function writeOut(text: string): Promise<void> {
+  return new Promise((resolve) => process.stdout.write(text, () => resolve()));
+}
+
+/**
+ * Load the session to continue, if one was asked for.
+ */
+async function openSession(options: HeadlessOptions, conversation: Conversation): Promise<SessionInfo> {
+  const saved = options.resume ? await findSession(options.resume) : options.continue ? await findLatestSession() : null;
+  if (!saved) {
+    return createSession();
+  }
+  conversation.restore(saved);
+  return { id: saved.id, createdAt: new Date(saved.createdAt) };
+}
+
+/**
+ * Run one prompt to completion and print the result. Returns the exit code.
+ */
+export async function runHeadless(options: HeadlessOptions): Promise<number> {
+  const started = Date.now();
+
+  // stdout is reserved for the output; anything else that prints goes to stderr
+  console.log = console.error;
+  console.info = console.error;
+
+  const prompt = await readPrompt(options);
+  if (!prompt) {
+    console.error('No prompt given - use cody -p "<prompt>" or pipe one in on stdin');
+    return EXIT_CODES.usage;
+  }
+
+  // The answer is printed as plain text, so thinking and colors stay out of it
+  runtimeSettings.showThinking = false;
+  runtimeSettings.diffDisplayCallback = null;
+
+  const approvals: ApprovalRecord[] = [];
+  const allowAll: ApprovalCallback = async (request, reason) => {
+    approvals.push({ request, reason });
+    console.error(`[Approved by --approval-policy allow] ${request} - ${reason}`);
+    return { action: "yes" };
+  };
+  // With no callback, anything that needs approval is blocked
+  runtimeSettings.approvalCallback = options.approvalPolicy === "allow" ? allowAll : null;
+
+  const conversation = new Conversation();
+  let session: SessionInfo;
+  try {
+    session = await openSession(options, conversation);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return EXIT_CODES.usage;
+  }
+
+  const streaming = options.outputFormat === "stream-json";
+  const emit = (event: object) => writeOut(JSON.stringify(event) + "\n");
+  if (streaming) {
+    await emit({ type: "start", session_id: session.id, model: config.model, provider: config.provider });
+  }
+
+  // First Ctrl+C cancels the turn, a second one quits on the spot
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    if (controller.signal.aborted) process.exit(EXIT_CODES.cancelled);
+    controller.abort();
+  };
+  process.on("SIGINT", onInterrupt);
+
+  const toolCalls = new Map<string, ToolCallRecord>();
+  const usage = { requests: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  let hitLimit = false;
+  let answer: string | null = null;
+  let failure: string | undefined;
+
+  const record = (call: ParsedToolCall): ToolCallRecord => {
+    const entry = toolCalls.get(call.id) ?? { id: call.id, name: call.name, args: call.args, success: null, output: null };
+    toolCalls.set(call.id, entry);
+    return entry;
+  };
+
+  try {
+    answer = await runAgentLoop(conversation, prompt, {
+      signal: controller.signal,
+      stream: streaming
+        ? {
+            onText: (segment) => {
+              if (segment.type === "response") emit({ type: "text", text: segment.text });
+            },
+            onEnd: () => {},
+          }
+        : undefined,
+      events: {
+        onToolCall: (call) => {
+          record(call);
+          if (streaming) emit({ type: "tool_call", id: call.id, name: call.name, args: call.args });
+        },
+        onToolResult: (call, result) => {
+          const entry = record(call);
+          entry.success = result.success;
+          entry.output = result.output;
+          if (streaming) {
+            emit({ type: "tool_result", id: call.id, name: call.name, success: result.success, output: result.output });
+          }
+        },
+        onUsage: (reported) => {
+          usage.requests++;
+          usage.prompt_tokens += reported.prompt_tokens;
+          usage.completion_tokens += reported.completion_tokens;
+          usage.total_tokens += reported.total_tokens;
+          if (streaming) emit({ type: "usage", ...reported });
+        },
+        onIterationLimit: () => {
+          hitLimit = true;
+        },
+      },
+    });
+  } catch (error) {
+    failure = error instanceof Error ? error.message : String(error);
+  } finally {
+    process.off("SIGINT", onInterrupt);
+    // Background processes and the shell would otherwise keep the process alive
+    killAllProcesses();
+    resetShellSession();
+  }
+
+  try {
+    await saveSession(session, conversation.snapshot(), { model: config.model, provider: config.provider });
+  } catch (error) {
+    console.error(`[Could not save session: ${error instanceof Error ? error.message : error}]`);
+  }
+
+  const status: RunStatus = failure !== undefined ? "error"
+    : controller.signal.aborted ? "cancelled"
+    : hitLimit ? "max_iterations"
+    : "success";
+  const exitCode = {
+    success: EXIT_CODES.success,
+    error: EXIT_CODES.error,
+    max_iterations: EXIT_CODES.maxIterations,
+    cancelled: EXIT_CODES.cancelled,
+  }[status];
+
+  const result: HeadlessResult = {
+    type: "result",
+    status,
+    exit_code: exitCode,
+    // At the iteration cap the loop's fallback text is whatever came last, not an answer
+    result: status === "success" ? answer : null,
+    ...(failure !== undefined && { error: failure }),
+    session_id: session.id,
+    model: config.model,
+    provider: config.provider,
+    tool_calls: [...toolCalls.values()],
+    approvals,
+    usage,
+    duration_ms: Date.now() - started,
+  };
+
+  if (options.outputFormat === "text") {
+    if (result.result !== null) {
+      await writeOut(result.result.endsWith("\n") ? result.result : `${result.result}\n`);
+    }
+    if (status === "error") console.error(`Error: ${failure}`);
+    if (status === "max_iterations") console.error("Stopped: the model was still calling tools at the iteration limit");
+    if (status === "cancelled") console.error("Cancelled");
+  } else {
+    await writeOut(JSON.stringify(result, null, streaming ? undefined : 2) + "\n");
+  }
+
+  return exitCode;
+}
@@ -7,9 +7,49 @@
  */
 
 import * as readline from "readline";
-import { config, runtimeSettings, type ApprovalResponse } from "./config.js";
-import { runAgentLoop, Conversation, client } from "./agent/index.js";
-import { renderContent } from "./utils/index.js";
+import {
+  config,
+  reloadConfig,
+  runtimeSettings,
+  APPROVAL_MODES,
+  type ApprovalMode,
+  type ApprovalOptions,
+  type ApprovalResponse,
+} from "./config.js";
+import { runAgentLoop, Conversation, client, formatTokens, getContextWindow, resetClient } from "./agent/index.js";
+import { listProcesses, killAllProcesses, describeStatus, resetShellSession } from "./tools/index.js";
+import { renderContent, StreamRenderer } from "./utils/index.js";
+import {
+  listCheckpoints,
+  undoLastCheckpoint,
+  rewindToCheckpoint,
+  type RestoreResult,
+} from "./checkpoints.js";
+import {
+  addPermissionRule,
+  describeRule,
+  getPermissionFile,
+  listPermissionRules,
+  trustProjectRules,
+  removePermissionRule,
+  type PermissionAction,
+} from "./permissions.js";
+import {
+  appendInputHistory,
+  createSession,
+  findLatestSession,
+  findSession,
+  listSessions,
+  loadInputHistory,
+  saveSession,
+  toSessionFile,
+  INPUT_HISTORY_SIZE,
+  type SessionFile,
+  type SessionInfo,
+} from "./sessions.js";
+import { EXIT_CODES, runHeadless } from "./headless.js";
+import { getVersion, parseCliArgs, HELP_TEXT, type CliOptions } from "./cli.js";
+import { EXPORT_FORMATS, exportTranscript, formatFromPath, type ExportFormat } from "./export.js";
 import { BOSS_CONTINUATION_PROMPT, ESC_KEY, bossMessages } from "./boss.js";
 import { colors } from "./utils/colors.js";
 import { spinner } from "./utils/spinner.js";
@@ -27,9 +67,20 @@ function getCommandList(): string {
   ${colors.green}/boss${colors.reset}           Autonomous mode - Cody works on todos.md
   ${colors.green}/show-thinking${colors.reset}  Toggle model reasoning display
   ${colors.green}/debug${colors.reset}          Toggle debug logs
-  ${colors.green}/new${colors.reset}            Clear conversation memory
+  ${colors.green}/new${colors.reset}            Clear conversation memory and shell session
+  ${colors.green}/compact${colors.reset} [focus] Summarize older turns to free up context
+  ${colors.green}/sessions${colors.reset} [all] List saved sessions (this directory, or all)
+  ${colors.green}/resume${colors.reset} <id>     Reopen a saved session
+  ${colors.green}/export${colors.reset} [fmt] [path] Save the conversation as md, json or html
+  ${colors.green}/ps${colors.reset}             List background processes
+  ${colors.green}/undo${colors.reset}           Revert the file changes of the last turn
+  ${colors.green}/checkpoints${colors.reset}    List turns that can be rewound
+  ${colors.green}/rewind${colors.reset} <n>     Restore files to before turn n (--chat also rewinds the conversation)
+  ${colors.green}/mode${colors.reset} [mode]     Show or set approval mode (suggest, auto-edit, full-auto)
+  ${colors.green}/permissions${colors.reset}    List, add, remove or trust saved permission rules
   ${colors.green}/help${colors.reset}           Show all commands
-  ${colors.green}exit${colors.reset}            Quit Cody`;
+  ${colors.green}exit${colors.reset}            Quit Cody
+  ${colors.gray}Ctrl+C cancels the current turn; press it again to quit${colors.reset}`;
 }
 
 function showWelcome(): void {
@@ -49,6 +100,8 @@ ${colors.cyan}║                                                           ║
 `);
   console.log(`${colors.gray}Connected to:${colors.reset} ${colors.green}${config.baseUrl}${colors.reset}`);
   console.log(`${colors.gray}Model:${colors.reset} ${colors.green}${config.model}${colors.reset}`);
+  console.log(`${colors.gray}Context window:${colors.reset} ${colors.green}${formatTokens(getContextWindow())} tokens${colors.reset}`);
+  console.log(`${colors.gray}Approval mode:${colors.reset} ${colors.green}${runtimeSettings.approvalMode}${colors.reset}`);
   console.log(`\n${colors.cyan}Commands:${colors.reset}${getCommandList()}\n`);
 }
 
@@ -59,6 +112,136 @@ function showHelp(): void {
   console.log(`\n${colors.cyan}Available Commands:${colors.reset}${getCommandList()}\n`);
 }
 
+// ============================================================================
+// BACKGROUND PROCESSES
+// ============================================================================
+/**
+ * Show background processes started with start_process.
+ */
+function showProcesses(): void {
+  const processes = listProcesses();
+  if (processes.length === 0) {
+    console.log(`\n${colors.gray}No background processes${colors.reset}\n`);
+    return;
+  }
+
+  console.log(`\n${colors.cyan}Background processes:${colors.reset}`);
+  for (const proc of processes) {
+    const seconds = Math.round((Date.now() - proc.startedAt.getTime()) / 1000);
+    const age = seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+    const status = proc.running
+      ? `${colors.green}${describeStatus(proc)}${colors.reset}`
+      : `${colors.gray}${describeStatus(proc)}${colors.reset}`;
+    console.log(`  ${colors.cyan}${proc.id}${colors.reset}  pid ${proc.pid ?? "?"}  ${status}  ${age}  ${proc.command}`);
+  }
+  console.log();
+}
+
+// ============================================================================
+// CONTEXT STATUS
+// ============================================================================
+/**
+ * Show how much of the model's context window the conversation uses.
+ */
+function showContextStatus(conversation: Conversation): void {
+  const usage = conversation.getContextUsage();
+  const percent = Math.round((usage.tokens / usage.window) * 100);
+  const color = percent >= 80 ? colors.yellow : colors.gray;
+  const estimate = usage.measured ? "" : "~";
+  console.log(
+    `${color}Context: ${estimate}${formatTokens(usage.tokens)} / ${formatTokens(usage.window)} tokens (${percent}%)${colors.reset}`
+  );
+}
+
+// ============================================================================
+// COMPACTION
+// ============================================================================
+/**
+ * Summarize older turns to free up context (the recent ones are kept as is).
+ * Aborting `signal` (Ctrl+C) skips the compaction and keeps the conversation as it is.
+ */
+async function compactConversation(conversation: Conversation, focus?: string, signal?: AbortSignal): Promise<void> {
+  spinner.start("Compacting conversation...");
+  try {
+    const result = await conversation.compact(client, config.model, focus || undefined, signal);
+    spinner.stop();
+    if (!result) {
+      console.log(`\n${colors.gray}Nothing to compact yet${colors.reset}\n`);
+      return;
+    }
+    showContextStatus(conversation);
+  } catch (error) {
+    spinner.stop();
+    if (signal?.aborted) {
+      console.log(`\n${colors.gray}[Compaction skipped]${colors.reset}\n`);
+      return;
+    }
+    console.error("\n[Compaction failed]", error instanceof Error ? error.message : error);
+  } finally {
+    // The spinner pauses stdin when it stops - resume it so the prompt keeps working
+    process.stdin.resume();
+  }
+}
+
+/**
+ * Compact automatically once the conversation nears the context window.
+ */
+async function compactIfNeeded(conversation: Conversation, signal?: AbortSignal): Promise<void> {
+  if (!conversation.needsCompaction() || signal?.aborted) return;
+  const usage = conversation.getContextUsage();
+  console.log(`[Compacting conversation - ${formatTokens(usage.tokens)} tokens in ${conversation.getMessageCount()} messages]`);
+  await compactConversation(conversation, undefined, signal);
+}
+
+// ============================================================================
+// CANCELLATION
+// ============================================================================
+// Ctrl+C cancels the turn in progress: the request or tool is aborted and the
+// conversation is kept. A second Ctrl+C (or one at the input prompt) exits.
+
+// Controller for the turn in progress - null while waiting for input
+let currentTurn: AbortController | null = null;
+
+// One keypress can arrive as both a readline and a process SIGINT
+let interruptPending = false;
+
+/**
+ * Start a cancellable turn. Call the returned function when the turn ends.
+ */
+function beginTurn(): { signal: AbortSignal; end: () => void } {
+  const turn = new AbortController();
+  currentTurn = turn;
+  return {
+    signal: turn.signal,
+    end: () => {
+      if (currentTurn === turn) currentTurn = null;
+    },
+  };
+}
+
+function handleInterrupt(): void {
+  if (interruptPending) return;
+  interruptPending = true;
+  setImmediate(() => {
+    interruptPending = false;
+  });
+
+  if (currentTurn && !currentTurn.signal.aborted) {
+    spinner.stop();
+    console.log(`\n${colors.yellow}[Cancelling - press Ctrl+C again to exit]${colors.reset}`);
+    // Boss mode stops too, rather than moving on to the next cycle
+    runtimeSettings.bossInterrupted = true;
+    currentTurn.abort();
+    return;
+  }
+
+  spinner.stop();
+  console.log("\nGoodbye! Happy coding!\n");
+  killAllProcesses();
+  resetShellSession();
+  process.exit(130);
+}
+
 // ============================================================================
 // APPROVAL PROMPT
 // ============================================================================
@@ -70,8 +253,9 @@ let mainRl: readline.Interface | null = null;
 
 /**
  * Promisified question using the main readline.
+ * Resolves to null if the turn is cancelled while waiting for an answer.
  */
-function askApprovalQuestion(prompt: string): Promise<string> {
+function askApprovalQuestion(prompt: string): Promise<string | null> {
   return new Promise((resolve) => {
     if (!mainRl) {
       // Fallback if readline not available
@@ -79,17 +263,29 @@ function askApprovalQuestion(prompt: string): Promise<string> {
       process.stdin.once("data", (data) => resolve(data.toString().trim()));
       return;
     }
-    mainRl.question(prompt, resolve);
+
+    const signal = currentTurn?.signal;
+    if (!signal) {
+      mainRl.question(prompt, resolve);
+      return;
+    }
+    if (signal.aborted) {
+      resolve(null);
+      return;
+    }
+    signal.addEventListener("abort", () => resolve(null), { once: true });
+    mainRl.question(prompt, { signal }, resolve);
   });
 }
 
 /**
- * Show approval prompt for blocked commands.
+ * Show approval prompt for blocked commands and file changes.
  * Uses the main readline instance to avoid stdin conflicts.
  */
 async function createApprovalPrompt(
   blockedItem: string,
-  reason: string
+  reason: string,
+  options: ApprovalOptions = {}
 ): Promise<ApprovalResponse> {
   // Stop the spinner so user can see the prompt
   spinner.stop();
@@ -102,13 +298,25 @@ async function createApprovalPrompt(
   console.log(`${colors.yellow}╚════════════════════════════════════════════════════════════╝${colors.reset}`);
   console.log(`\n${colors.red}Command:${colors.reset} ${blockedItem}`);
   console.log(`${colors.red}Reason:${colors.reset}  ${reason}\n`);
+  if (options.details) {
+    console.log(`${options.details}\n`);
+  }
   console.log(`${colors.cyan}Options:${colors.reset}`);
-  console.log(`  ${colors.green}[1]${colors.reset} Yes - Execute the command`);
-  console.log(`  ${colors.red}[2]${colors.reset} No - Cancel the command`);
-  console.log(`  ${colors.blue}[3]${colors.reset} Tell Cody what to do instead\n`);
+  console.log(`  ${colors.green}[1]${colors.reset} Yes - Allow it`);
+  console.log(`  ${colors.red}[2]${colors.reset} No - Cancel it`);
+  console.log(`  ${colors.blue}[3]${colors.reset} Tell Cody what to do instead`);
+  if (options.always) {
+    console.log(`  ${colors.magenta}[4]${colors.reset} ${options.always}`);
+  }
+  console.log();
+
+  const choices = options.always ? "1/2/3/4" : "1/2/3";
 
   const askChoice = async (): Promise<ApprovalResponse> => {
-    const answer = await askApprovalQuestion(`${colors.cyan}Enter choice (1/2/3):${colors.reset} `);
+    const answer = await askApprovalQuestion(`${colors.cyan}Enter choice (${choices}):${colors.reset} `);
+    if (answer === null) {
+      return { action: "no" };
+    }
     const choice = answer.trim();
 
     if (choice === "1" || choice.toLowerCase() === "yes" || choice.toLowerCase() === "y") {
@@ -121,11 +329,18 @@ async function createApprovalPrompt(
       return { action: "no" };
     } else if (choice === "3") {
       const instruction = await askApprovalQuestion(`${colors.blue}Tell Cody what to do:${colors.reset} `);
+      if (instruction === null) {
+        return { action: "no" };
+      }
       console.log(`${colors.blue}→ Instruction received${colors.reset}\n`);
       spinner.start("Thinking...");
       return { action: "instruct", message: instruction.trim() };
+    } else if (options.always && (choice === "4" || choice.toLowerCase() === "always")) {
+      console.log(`${colors.magenta}✓ Always allowed${colors.reset}\n`);
+      spinner.start("Thinking...");
+      return { action: "always" };
     } else {
-      console.log(`${colors.gray}Please enter 1, 2, or 3${colors.reset}`);
+      console.log(`${colors.gray}Please enter ${options.always ? "1, 2, 3, or 4" : "1, 2, or 3"}${colors.reset}`);
       return askChoice();
     }
   };
@@ -133,6 +348,325 @@ async function createApprovalPrompt(
   return askChoice();
 }
 
+// Read-only tools run in parallel, so several prompts can be requested at once - show them one at a time
+let approvalQueue: Promise<unknown> = Promise.resolve();
+
+function queueApprovalPrompt(
+  blockedItem: string,
+  reason: string,
+  options?: ApprovalOptions
+): Promise<ApprovalResponse> {
+  const response = approvalQueue.then(() => createApprovalPrompt(blockedItem, reason, options));
+  approvalQueue = response.catch(() => {});
+  return response;
+}
+
+/**
+ * Show the diff of a file change that was applied without asking (auto-edit mode).
+ */
+function showFileDiff(diff: string): void {
+  spinner.stop();
+  console.log(`\n${diff}\n`);
+  spinner.start("Thinking...");
+}
+
+// ============================================================================
+// APPROVAL MODE
+// ============================================================================
+/**
+ * Show or change the approval mode for file writes.
+ */
+function handleModeCommand(arg: string): void {
+  if (!arg) {
+    console.log(`\n[Approval mode: ${runtimeSettings.approvalMode}]`);
+    console.log(`${colors.gray}  suggest    - every file change is shown as a diff and must be approved`);
+    console.log(`  auto-edit  - file changes are applied and the diff is shown`);
+    console.log(`  full-auto  - file changes are applied without display${colors.reset}\n`);
+    return;
+  }
+
+  if (!APPROVAL_MODES.includes(arg as ApprovalMode)) {
+    console.log(`\n${colors.red}Unknown mode:${colors.reset} ${arg} (use ${APPROVAL_MODES.join(", ")})\n`);
+    return;
+  }
+
+  runtimeSettings.approvalMode = arg as ApprovalMode;
+  console.log(`\n[Approval mode: ${runtimeSettings.approvalMode}]\n`);
+}
+
+// ============================================================================
+// CHECKPOINTS
+// ============================================================================
+/**
+ * Print which files were restored and which were left alone.
+ */
+function showRestoreResult(result: RestoreResult): void {
+  const cwd = process.cwd() + "/";
+  const short = (path: string) => (path.startsWith(cwd) ? path.slice(cwd.length) : path);
+
+  for (const path of new Set(result.restored)) {
+    console.log(`  ${colors.green}restored${colors.reset} ${short(path)}`);
+  }
+  for (const path of new Set(result.skipped)) {
+    console.log(`  ${colors.yellow}skipped${colors.reset}  ${short(path)} ${colors.gray}(changed outside Cody since)${colors.reset}`);
+  }
+  console.log();
+}
+
+/**
+ * List the turns recorded this session, oldest first.
+ */
+function showCheckpoints(): void {
+  const checkpoints = listCheckpoints();
+  if (checkpoints.length === 0) {
+    console.log(`\n${colors.gray}No checkpoints yet${colors.reset}\n`);
+    return;
+  }
+
+  console.log(`\n${colors.cyan}Checkpoints:${colors.reset}`);
+  for (const checkpoint of checkpoints) {
+    const time = checkpoint.createdAt.toLocaleTimeString();
+    const prompt = checkpoint.prompt.length > 50 ? `${checkpoint.prompt.slice(0, 50)}...` : checkpoint.prompt;
+    const files = checkpoint.files.size === 1 ? "1 file" : `${checkpoint.files.size} files`;
+    console.log(`  ${colors.cyan}${checkpoint.id}.${colors.reset} ${colors.gray}${time}${colors.reset}  ${files.padEnd(8)} ${prompt.replace(/\s+/g, " ")}`);
+  }
+  console.log(`${colors.gray}\nRestore with /rewind <n> (add --chat to rewind the conversation too)${colors.reset}\n`);
+}
+
+async function handleUndo(): Promise<void> {
+  const result = await undoLastCheckpoint();
+  if (!result) {
+    console.log(`\n${colors.gray}Nothing to undo${colors.reset}\n`);
+    return;
+  }
+  console.log(`\n[Undid file changes from turn ${result.checkpoint.id}]`);
+  showRestoreResult(result);
+}
+
+async function handleRewind(args: string, conversation: Conversation): Promise<void> {
+  const parts = args.split(/\s+/).filter(Boolean);
+  const rewindChat = parts.includes("--chat");
+  const id = parseInt(parts.find((part) => part !== "--chat") ?? "", 10);
+
+  if (Number.isNaN(id)) {
+    console.log(`\n${colors.red}Usage:${colors.reset} /rewind <n> [--chat] - see /checkpoints for turn numbers\n`);
+    return;
+  }
+
+  const result = await rewindToCheckpoint(id);
+  if (!result) {
+    console.log(`\n${colors.red}No checkpoint ${id}${colors.reset} - see /checkpoints\n`);
+    return;
+  }
+
+  console.log(`\n[Rewound files to before turn ${id}]`);
+  if (rewindChat) {
+    const truncated = conversation.truncate(result.checkpoint.messageIndex, result.checkpoint.prompt);
+    if (truncated) {
+      await persistSession(conversation);
+    }
+    console.log(truncated
+      ? `[Conversation rewound to before turn ${id}]`
+      : `${colors.yellow}[Conversation not rewound - it was compacted or cleared since turn ${id}]${colors.reset}`);
+  }
+  showRestoreResult(result);
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+// The conversation is saved after every turn so it can be resumed later.
+
+let session: SessionInfo = createSession();
+
+/**
+ * Save the current conversation. A failed save is reported but never interrupts the session.
+ */
+async function persistSession(conversation: Conversation): Promise<void> {
+  try {
+    await saveSession(session, conversation.snapshot(), { model: config.model, provider: config.provider });
+  } catch (error) {
+    console.warn(`${colors.yellow}[Could not save session: ${error instanceof Error ? error.message : error}]${colors.reset}`);
+  }
+}
+
+/**
+ * Load a saved session into the conversation and continue saving to it.
+ */
+function resumeSession(saved: SessionFile, conversation: Conversation): void {
+  conversation.restore(saved);
+  session = { id: saved.id, createdAt: new Date(saved.createdAt) };
+
+  const turns = saved.messages.filter((message) => message.role === "user").length;
+  console.log(`\n[Resumed session ${saved.id} - ${turns} turn(s), last active ${new Date(saved.updatedAt).toLocaleString()}]`);
+  if (saved.cwd !== process.cwd()) {
+    console.log(`${colors.yellow}[It was started in ${saved.cwd} - file paths in it may not match]${colors.reset}`);
+  }
+  if (saved.model !== config.model) {
+    console.log(`${colors.gray}[It used ${saved.model}; continuing with ${config.model}]${colors.reset}`);
+  }
+  console.log();
+}
+
+/**
+ * Relative age for listings, e.g. "5m ago", "3d ago".
+ */
+function formatAge(date: Date): string {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (60 * 24))}d ago`;
+}
+
+/**
+ * List saved sessions for this directory, or for every directory with "all".
+ */
+async function showSessions(args: string): Promise<void> {
+  const all = args.trim() === "all";
+  const sessions = (await listSessions()).filter((saved) => all || saved.cwd === process.cwd());
+
+  if (sessions.length === 0) {
+    console.log(`\n${colors.gray}No saved sessions${all ? "" : " in this directory (try /sessions all)"}${colors.reset}\n`);
+    return;
+  }
+
+  // Grouped by directory, most recently used first
+  const byDir = new Map<string, SessionFile[]>();
+  for (const saved of sessions) {
+    byDir.set(saved.cwd, [...(byDir.get(saved.cwd) ?? []), saved]);
+  }
+
+  for (const [dir, group] of byDir) {
+    console.log(`\n${colors.cyan}${dir}${colors.reset}`);
+    for (const saved of group.slice(0, all ? 10 : 20)) {
+      const current = saved.id === session.id ? ` ${colors.green}(current)${colors.reset}` : "";
+      const prompt = saved.firstPrompt.replace(/\s+/g, " ");
+      const shown = prompt.length > 50 ? `${prompt.slice(0, 50)}...` : prompt;
+      const age = formatAge(new Date(saved.updatedAt)).padEnd(9);
+      console.log(`  ${colors.cyan}${saved.id}${colors.reset}  ${colors.gray}${age}${colors.reset} ${shown}${current}`);
+    }
+    if (group.length > (all ? 10 : 20)) {
+      console.log(`  ${colors.gray}... ${group.length - (all ? 10 : 20)} older${colors.reset}`);
+    }
+  }
+  console.log(`${colors.gray}\nResume with /resume <id> or cody --resume <id>${colors.reset}\n`);
+}
+
+async function handleResume(id: string, conversation: Conversation): Promise<void> {
+  if (!id) {
+    console.log(`\n${colors.red}Usage:${colors.reset} /resume <id> - see /sessions for ids\n`);
+    return;
+  }
+  try {
+    resumeSession(await findSession(id), conversation);
+  } catch (error) {
+    console.log(`\n${colors.red}${error instanceof Error ? error.message : error}${colors.reset}\n`);
+  }
+}
+
+/**
+ * /export [md|json|html] [path] - write the conversation to a file.
+ * The format defaults to the path's extension, then Markdown.
+ */
+async function handleExport(args: string, conversation: Conversation): Promise<void> {
+  const words = args.split(/\s+/).filter(Boolean);
+  const explicit = EXPORT_FORMATS.find((format) => format === words[0]?.toLowerCase());
+  if (explicit) words.shift();
+  const path = words.join(" ") || undefined;
+  const format: ExportFormat = explicit ?? (path ? formatFromPath(path) : undefined) ?? "md";
+
+  const snapshot = conversation.snapshot();
+  if (!snapshot.messages.some((message) => message.role === "user")) {
+    console.log(`\n${colors.gray}Nothing to export yet${colors.reset}\n`);
+    return;
+  }
+
+  try {
+    const file = toSessionFile(session, snapshot, { model: config.model, provider: config.provider });
+    const target = await exportTranscript(file, format, path, { includeThinking: runtimeSettings.showThinking });
+    console.log(`\n[Exported the conversation to ${target}]`);
+    if (format === "json") {
+      console.log(`${colors.gray}Reopen it with cody --resume ${target}${colors.reset}`);
+    } else if (!runtimeSettings.showThinking) {
+      console.log(`${colors.gray}Thinking is left out - turn on /show-thinking to include it${colors.reset}`);
+    }
+    console.log();
+  } catch (error) {
+    console.log(`\n${colors.red}Export failed: ${error instanceof Error ? error.message : error}${colors.reset}\n`);
+  }
+}
+
+// ============================================================================
+// PERMISSION RULES
+// ============================================================================
+/**
+ * List, add, remove or trust saved permission rules.
+ *   /permissions
+ *   /permissions add <allow|deny|ask> <tool> <pattern> [--user]
+ *   /permissions remove <n>
+ *   /permissions trust
+ */
+async function handlePermissionsCommand(args: string): Promise<void> {
+  const [subcommand, ...rest] = args.split(/\s+/).filter(Boolean);
+
+  if (!subcommand || subcommand === "list") {
+    const rules = await listPermissionRules();
+    if (rules.length === 0) {
+      console.log(`\n${colors.gray}No permission rules (${getPermissionFile("project")})${colors.reset}\n`);
+      return;
+    }
+    console.log(`\n${colors.cyan}Permission rules:${colors.reset}`);
+    rules.forEach((rule, index) => {
+      const color = rule.action === "deny" ? colors.red : rule.action === "ask" ? colors.yellow : colors.green;
+      const untrusted = rule.trusted ? "" : `, ${colors.yellow}not trusted${colors.gray}`;
+      console.log(`  ${colors.cyan}${index + 1}.${colors.reset} ${color}${rule.action}${colors.reset} ${rule.tool} "${rule.pattern}" ${colors.gray}(${rule.scope}${untrusted})${colors.reset}`);
+    });
+    if (rules.some((rule) => !rule.trusted && rule.action === "allow")) {
+      console.log(`${colors.gray}\nUntrusted allow rules came with the project and are ignored - review them, then /permissions trust${colors.reset}`);
+    }
+    console.log(`${colors.gray}\nRemove with /permissions remove <n>${colors.reset}\n`);
+    return;
+  }
+
+  if (subcommand === "trust") {
+    const trusted = await trustProjectRules();
+    if (trusted.length === 0) {
+      console.log(`\n${colors.gray}All project rules are already trusted${colors.reset}\n`);
+      return;
+    }
+    console.log(`\n[Trusted ${trusted.length} project rule(s):]`);
+    trusted.forEach((rule) => console.log(`  ${describeRule(rule)}`));
+    console.log();
+    return;
+  }
+
+  if (subcommand === "remove") {
+    const index = parseInt(rest[0] ?? "", 10) - 1;
+    const removed = Number.isNaN(index) ? null : await removePermissionRule(index);
+    console.log(removed
+      ? `\n[Removed ${removed.scope} rule: ${describeRule(removed)}]\n`
+      : `\n${colors.red}No rule number ${rest[0] ?? ""}${colors.reset} - see /permissions\n`);
+    return;
+  }
+
+  if (subcommand === "add") {
+    const user = rest.includes("--user");
+    const [action, tool, ...patternParts] = rest.filter((part) => part !== "--user");
+    const pattern = patternParts.join(" ").replace(/^"(.*)"$/, "$1");
+    if (!["allow", "deny", "ask"].includes(action) || !tool || !pattern) {
+      console.log(`\n${colors.red}Usage:${colors.reset} /permissions add <allow|deny|ask> <tool> <pattern> [--user]\n`);
+      return;
+    }
+    const rule = { tool, pattern, action: action as PermissionAction };
+    await addPermissionRule(rule, user ? "user" : "project");
+    console.log(`\n[Added ${user ? "user" : "project"} rule: ${describeRule(rule)}]\n`);
+    return;
+  }
+
+  console.log(`\n${colors.red}Unknown subcommand:${colors.reset} ${subcommand} (use list, add, remove or trust)\n`);
+}
+
 // ============================================================================
 // BOSS MODE
 // ============================================================================
@@ -175,19 +709,31 @@ async function startBossMode(
       console.log(bossMessages.cycle(cycle));
       console.log("─".repeat(60));
 
+      const turn = beginTurn();
       try {
-        const response = await runAgentLoop(conversation, prompt, { bossMode: true });
-        const renderedResponse = renderContent(response);
-        console.log(`\n◆ ${renderedResponse}\n`);
+        const renderer = new StreamRenderer();
+        const response = await runAgentLoop(conversation, prompt, {
+          bossMode: true,
+          stream: renderer,
+          signal: turn.signal,
+        });
+        if (turn.signal.aborted) {
+          console.log(`\n${colors.yellow}[Cycle cancelled]${colors.reset}\n`);
+        } else if (renderer.hasOutput) {
+          console.log();
+        } else {
+          console.log(`\n◆ ${renderContent(response)}\n`);
+        }
+        showContextStatus(conversation);
 
         // Auto-compact conversation if it's getting too large
-        if (conversation.needsCompaction()) {
-          console.log(`[Compacting conversation - ${conversation.getMessageCount()} messages]`);
-          await conversation.compact(client, config.model);
-        }
+        await compactIfNeeded(conversation, turn.signal);
+        await persistSession(conversation);
       } catch (error) {
         console.error("\n[Error]", error instanceof Error ? error.message : error);
         console.log("Continuing to next cycle...\n");
+      } finally {
+        turn.end();
       }
 
       // Check if interrupted during the cycle
@@ -213,16 +759,6 @@ async function startBossMode(
   }
 }
 
-// ============================================================================
-// CLI ARGUMENT PARSING
-// ============================================================================
-function parseArgs(): { bossMode: boolean } {
-  const args = process.argv.slice(2);
-  return {
-    bossMode: args.includes('--boss'),
-  };
-}
-
 // ============================================================================
 // MAIN CHAT LOOP
 // ============================================================================
@@ -230,25 +766,91 @@ function parseArgs(): { bossMode: boolean } {
 // through the agent loop.
 //
 async function main(): Promise<void> {
-  const args = parseArgs();
+  let args: CliOptions;
+  try {
+    args = parseCliArgs();
+  } catch (error) {
+    console.error(`cody: ${error instanceof Error ? error.message : error}`);
+    console.error("Run cody --help for usage.");
+    process.exit(EXIT_CODES.usage);
+  }
+
+  if (args.help) {
+    console.log(HELP_TEXT);
+    return;
+  }
+  if (args.version) {
+    console.log(await getVersion());
+    return;
+  }
+
+  // --cwd and --config change which config files apply, so the config is
+  // loaded again with the command-line values on top
+  try {
+    if (args.cwd) {
+      process.chdir(args.cwd);
+    }
+    reloadConfig(args.config, { quiet: args.print });
+    resetClient();
+    // The shell session was set up for the old directory and limits
+    resetShellSession();
+  } catch (error) {
+    console.error(`cody: ${error instanceof Error ? error.message : error}`);
+    process.exit(EXIT_CODES.usage);
+  }
+
+  if (args.debug) {
+    runtimeSettings.debug = true;
+  }
+  if (args.approvalMode) {
+    runtimeSettings.approvalMode = args.approvalMode;
+  }
+
+  // Headless: run the one prompt and exit without starting the REPL
+  if (args.print) {
+    process.exit(await runHeadless(args));
+  }
+
   showWelcome();
 
   // Create conversation state - persists across messages in the session
   const conversation = new Conversation();
 
+  // Reopen a saved session with --resume <id> or --continue
+  if (args.resume || args.continue) {
+    try {
+      const saved = args.resume ? await findSession(args.resume) : await findLatestSession();
+      if (saved) {
+        resumeSession(saved, conversation);
+      } else {
+        console.log(`${colors.gray}[No saved session in this directory - starting a new one]${colors.reset}\n`);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+
   // Create readline interface for terminal input/output with history support
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
-    historySize: 100,
+    // Input history is shared between runs (see sessions.ts)
+    history: await loadInputHistory(),
+    historySize: INPUT_HISTORY_SIZE,
     terminal: true,
   });
 
   // Store reference for approval prompts
   mainRl = rl;
 
+  // Ctrl+C reaches readline as a keypress in raw mode and the process as a signal otherwise
+  rl.on("SIGINT", handleInterrupt);
+  process.on("SIGINT", handleInterrupt);
+
   // Set up approval callback for blocked commands
-  runtimeSettings.approvalCallback = createApprovalPrompt;
+  runtimeSettings.approvalCallback = queueApprovalPrompt;
+  runtimeSettings.diffDisplayCallback = showFileDiff;
 
   // Access history array (exists at runtime but not in TS types)
   const history = (rl as unknown as { history: string[] }).history;
@@ -261,6 +863,9 @@ async function main(): Promise<void> {
         if (answer.trim() && history && !history.includes(answer)) {
           history.unshift(answer);
         }
+        if (answer.trim()) {
+          appendInputHistory(answer).catch(() => {});
+        }
         resolve(answer);
       });
     });
@@ -283,6 +888,9 @@ async function main(): Promise<void> {
     // Check for exit command
     if (input === "exit") {
       console.log("\nGoodbye! Happy coding!\n");
+      // Background processes would otherwise keep the event loop alive
+      killAllProcesses();
+      resetShellSession();
       rl.close();
       break;
     }
@@ -306,7 +914,76 @@ async function main(): Promise<void> {
     // Check for /new command
     if (input === "/new") {
       conversation.reset();
-      console.log(`\n[Conversation memory cleared]\n`);
+      resetShellSession();
+      // Later turns go into a new saved session
+      session = createSession();
+      console.log(`\n[Conversation memory and shell session cleared]\n`);
+      continue;
+    }
+
+    // Check for /compact command (focus instructions keep their case)
+    if (input === "/compact" || input.startsWith("/compact ")) {
+      const turn = beginTurn();
+      try {
+        await compactConversation(conversation, userInput.trim().slice("/compact".length).trim(), turn.signal);
+      } finally {
+        turn.end();
+      }
+      await persistSession(conversation);
+      continue;
+    }
+
+    // Check for /sessions command
+    if (input === "/sessions" || input.startsWith("/sessions ")) {
+      await showSessions(input.slice("/sessions".length));
+      continue;
+    }
+
+    // Check for /resume command (ids are case-sensitive)
+    if (input === "/resume" || input.startsWith("/resume ")) {
+      await handleResume(userInput.trim().slice("/resume".length).trim(), conversation);
+      continue;
+    }
+
+    // Check for /export command (paths are case-sensitive)
+    if (input === "/export" || input.startsWith("/export ")) {
+      await handleExport(userInput.trim().slice("/export".length), conversation);
+      continue;
+    }
+
+    // Check for /ps command
+    if (input === "/ps") {
+      showProcesses();
+      continue;
+    }
+
+    // Check for /undo command
+    if (input === "/undo") {
+      await handleUndo();
+      continue;
+    }
+
+    // Check for /checkpoints command
+    if (input === "/checkpoints") {
+      showCheckpoints();
+      continue;
+    }
+
+    // Check for /rewind command
+    if (input === "/rewind" || input.startsWith("/rewind ")) {
+      await handleRewind(input.slice("/rewind".length), conversation);
+      continue;
+    }
+
+    // Check for /mode command
+    if (input === "/mode" || input.startsWith("/mode ")) {
+      handleModeCommand(input.slice("/mode".length).trim());
+      continue;
+    }
+
+    // Check for /permissions command (arguments keep their case - patterns are case-sensitive)
+    if (input === "/permissions" || input.startsWith("/permissions ")) {
+      await handlePermissionsCommand(userInput.trim().slice("/permissions".length));
       continue;
     }
 
@@ -334,14 +1011,27 @@ async function main(): Promise<void> {
       continue;
     }
 
+    const turn = beginTurn();
     try {
-      // Run the agent loop and get the response
-      const response = await runAgentLoop(conversation, userInput);
+      // Run the agent loop - the response is rendered as it streams in
+      const renderer = new StreamRenderer();
+      const response = await runAgentLoop(conversation, userInput, { stream: renderer, signal: turn.signal });
+
+      if (turn.signal.aborted) {
+        console.log(`\n${colors.yellow}[Turn cancelled - the conversation so far is kept]${colors.reset}\n`);
+      } else if (renderer.hasOutput) {
+        console.log();
+      } else {
+        // Nothing was streamed (e.g. only hidden thinking) - show the final text instead
+        const renderedResponse = renderContent(response);
+        // We decide Cody prefix here
+        console.log(`\n◆ ${renderedResponse}\n`);
+      }
+      showContextStatus(conversation);
 
-      // Render and display the response
-      const renderedResponse = renderContent(response);
-      // We decide Cody prefix here
-      console.log(`\n◆ ${renderedResponse}\n`);
+      // Auto-compact conversation if it's getting too large
+      await compactIfNeeded(conversation, turn.signal);
+      await persistSession(conversation);
 
       // IMPORTANT: The ora spinner library pauses stdin when it stops.
       // Without this, Node's event loop has no active handles and exits with code 0.
@@ -367,6 +1057,8 @@ async function main(): Promise<void> {
           );
       }
       console.log("Something went wrong. Please try again.\n");
+    } finally {
+      turn.end();
     }
   }
 }
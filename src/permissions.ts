@@ -0,0 +1,247 @@
+/**
+ * Permission Rules
+ *
+ * Saved answers to approval prompts, so the same question isn't asked twice.
+ * Rules live in two files:
+ * - .cody/permissions.json in the project (can be checked in and shared)
+ * - ~/.cody/permissions.json for the user (applies to every project)
+ *
+ * Each rule matches a tool and a pattern: a glob for file paths
+ * ("**\/*.lock") or a wildcard for commands ("npm test*"). When several rules
+ * match, deny beats ask and ask beats allow, so a shared deny can't be
+ * overridden by a personal allow.
+ *
+ * A project file arrives with every clone, so its allow rules only count once
+ * the user has trusted them: rules Cody saves itself are trusted, and
+ * `/permissions trust` accepts the rest. The trusted rules are recorded in
+ * ~/.cody/trusted-permissions.json. Untrusted deny and ask rules still apply,
+ * since they can only make Cody more careful.
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { matchesGlob } from "./utils/glob.js";
+
+export type PermissionAction = "allow" | "deny" | "ask";
+export type PermissionScope = "project" | "user";
+
+/**
+ * One saved rule, as stored in permissions.json.
+ */
+export interface PermissionRule {
+  /** Tool name, e.g. "run_command" or "write_file" ("*" for any tool) */
+  tool: string;
+  /** Command wildcard or path glob */
+  pattern: string;
+  action: PermissionAction;
+}
+
+/**
+ * A rule together with where it came from.
+ */
+export interface ScopedPermissionRule extends PermissionRule {
+  scope: PermissionScope;
+  /** False for project rules the user hasn't trusted yet (user rules are always trusted) */
+  trusted: boolean;
+}
+
+const ACTIONS: PermissionAction[] = ["allow", "deny", "ask"];
+const SEVERITY: Record<PermissionAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+const PERMISSION_FILES: Record<PermissionScope, () => string> = {
+  project: () => join(process.cwd(), ".cody", "permissions.json"),
+  user: () => join(homedir(), ".cody", "permissions.json"),
+};
+
+// Trusted project rules, keyed by the project's permissions.json path
+const TRUST_FILE = () => join(homedir(), ".cody", "trusted-permissions.json");
+
+// Loaded lazily and dropped whenever a rule is added or removed
+let cache: Promise<ScopedPermissionRule[]> | null = null;
+
+/**
+ * Get the file path rules for a scope are stored in.
+ */
+export function getPermissionFile(scope: PermissionScope): string {
+  return PERMISSION_FILES[scope]();
+}
+
+function isRule(value: unknown): value is PermissionRule {
+  if (!value || typeof value !== "object") return false;
+  const rule = value as Record<string, unknown>;
+  return typeof rule.tool === "string" && typeof rule.pattern === "string" &&
+    ACTIONS.includes(rule.action as PermissionAction);
+}
+
+/**
+ * Read the rules stored for one scope. A missing file means no rules;
+ * a broken one is reported once and ignored rather than blocking the session.
+ */
+async function readRules(scope: PermissionScope): Promise<PermissionRule[]> {
+  const file = getPermissionFile(scope);
+  try {
+    const data = JSON.parse(await readFile(file, "utf-8")) as { rules?: unknown };
+    return Array.isArray(data.rules) ? data.rules.filter(isRule) : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Ignoring ${file}: ${message}`);
+    }
+    return [];
+  }
+}
+
+function sameRule(a: PermissionRule, b: PermissionRule): boolean {
+  return a.tool === b.tool && a.pattern === b.pattern && a.action === b.action;
+}
+
+async function readTrust(): Promise<Record<string, PermissionRule[]>> {
+  try {
+    const data = JSON.parse(await readFile(TRUST_FILE(), "utf-8")) as { projects?: Record<string, unknown> };
+    const projects: Record<string, PermissionRule[]> = {};
+    for (const [file, rules] of Object.entries(data.projects ?? {})) {
+      projects[file] = Array.isArray(rules) ? rules.filter(isRule) : [];
+    }
+    return projects;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record project rules as trusted for the current project.
+ */
+async function addTrustedRules(rules: PermissionRule[]): Promise<void> {
+  const projects = await readTrust();
+  const file = getPermissionFile("project");
+  const trusted = projects[file] ?? [];
+  for (const rule of rules) {
+    if (!trusted.some((r) => sameRule(r, rule))) {
+      trusted.push({ tool: rule.tool, pattern: rule.pattern, action: rule.action });
+    }
+  }
+  projects[file] = trusted;
+  await mkdir(dirname(TRUST_FILE()), { recursive: true, mode: 0o700 });
+  await writeFile(TRUST_FILE(), JSON.stringify({ projects }, null, 2) + "\n", { encoding: "utf-8", mode: 0o600 });
+  cache = null;
+}
+
+async function writeRules(scope: PermissionScope, rules: PermissionRule[]): Promise<void> {
+  const file = getPermissionFile(scope);
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify({ rules }, null, 2) + "\n", "utf-8");
+  cache = null;
+}
+
+/**
+ * All rules, project rules first.
+ */
+export function listPermissionRules(): Promise<ScopedPermissionRule[]> {
+  cache ??= Promise.all([readRules("project"), readRules("user"), readTrust()]).then(([project, user, trust]) => {
+    const trusted = trust[getPermissionFile("project")] ?? [];
+    return [
+      ...project.map((rule): ScopedPermissionRule => ({
+        ...rule,
+        scope: "project",
+        trusted: trusted.some((r) => sameRule(r, rule)),
+      })),
+      ...user.map((rule): ScopedPermissionRule => ({ ...rule, scope: "user", trusted: true })),
+    ];
+  });
+  return cache;
+}
+
+/**
+ * Trust every rule currently in the project file. Returns the rules that were newly trusted.
+ */
+export async function trustProjectRules(): Promise<ScopedPermissionRule[]> {
+  const untrusted = (await listPermissionRules()).filter((rule) => !rule.trusted);
+  if (untrusted.length > 0) {
+    await addTrustedRules(untrusted);
+  }
+  return untrusted;
+}
+
+/**
+ * Save a rule (skipped if an identical one already exists).
+ */
+export async function addPermissionRule(rule: PermissionRule, scope: PermissionScope = "project"): Promise<void> {
+  const rules = await readRules(scope);
+  // Rules the user adds are trusted, even if an identical untrusted one is already in the file
+  if (scope === "project") {
+    await addTrustedRules([rule]);
+  }
+  if (rules.some((r) => sameRule(r, rule))) {
+    return;
+  }
+  await writeRules(scope, [...rules, { tool: rule.tool, pattern: rule.pattern, action: rule.action }]);
+}
+
+/**
+ * Remove a rule by its position in listPermissionRules() (0-based).
+ * Returns the removed rule, or null if the index is out of range.
+ */
+export async function removePermissionRule(index: number): Promise<ScopedPermissionRule | null> {
+  const all = await listPermissionRules();
+  const target = all[index];
+  if (!target) return null;
+
+  const rules = await readRules(target.scope);
+  const position = rules.findIndex((r) => sameRule(r, target));
+  if (position === -1) return null;
+
+  rules.splice(position, 1);
+  await writeRules(target.scope, rules);
+  return target;
+}
+
+/**
+ * Match a command against a wildcard pattern, where "*" matches anything.
+ */
+export function matchesCommandPattern(command: string, pattern: string): boolean {
+  const source = pattern
+    .trim()
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(command.trim());
+}
+
+/**
+ * Path as rules see it: relative to the project with "/" separators, or absolute outside it.
+ */
+export function toRulePath(path: string): string {
+  const rel = relative(process.cwd(), resolve(path));
+  if (!rel || rel.startsWith("..") || isAbsolute(rel)) return resolve(path);
+  return rel.split(sep).join("/");
+}
+
+/**
+ * Rules that apply to a tool, in the order they should be checked.
+ * Untrusted project allow rules are left out, so a cloned repo can't switch off
+ * a built-in ask or deny (or an approval prompt) on its own.
+ */
+export async function getToolRules(tool: string): Promise<ScopedPermissionRule[]> {
+  const rules = await listPermissionRules();
+  return rules
+    .filter((rule) => rule.tool === tool || rule.tool === "*")
+    .filter((rule) => rule.trusted || rule.action !== "allow")
+    .sort((a, b) => SEVERITY[b.action] - SEVERITY[a.action]);
+}
+
+/**
+ * Find the deciding rule for a file path, or undefined if none match.
+ */
+export async function checkPathPermission(tool: string, path: string): Promise<ScopedPermissionRule | undefined> {
+  const subject = toRulePath(path);
+  const rules = await getToolRules(tool);
+  return rules.find((rule) => matchesGlob(subject, rule.pattern));
+}
+
+/**
+ * One-line description of a rule for prompts and listings.
+ */
+export function describeRule(rule: PermissionRule): string {
+  return `${rule.action} ${rule.tool} "${rule.pattern}"`;
+}
@@ -0,0 +1,205 @@
+/**
+ * Saved Sessions
+ *
+ * Every conversation is saved to ~/.cody/sessions/<id>.json after each turn,
+ * together with the model, working directory and timestamps, so it can be
+ * listed with /sessions and reopened with `cody --resume <id>` or
+ * `cody --continue`. The input history (up-arrow) is kept in ~/.cody/history.
+ * Both hold everything typed and every tool result, so only the user can read them.
+ */
+
+import { randomBytes } from "crypto";
+import { appendFile, chmod, mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+import type { ConversationSnapshot } from "./agent/conversation.js";
+
+// Bumped if the file format changes incompatibly
+export const SESSION_FORMAT_VERSION = 1;
+
+// Lines of input history kept for up-arrow recall
+export const INPUT_HISTORY_SIZE = 500;
+
+const PRIVATE_DIR_MODE = 0o700;
+const PRIVATE_FILE_MODE = 0o600;
+
+/**
+ * A saved session, as stored on disk.
+ */
+export interface SessionFile extends ConversationSnapshot {
+  version: number;
+  id: string;
+  model: string;
+  provider: string;
+  cwd: string;
+  createdAt: string;
+  updatedAt: string;
+  /** The first thing the user asked, for listings */
+  firstPrompt: string;
+}
+
+/**
+ * Details of the session in progress.
+ */
+export interface SessionInfo {
+  id: string;
+  createdAt: Date;
+}
+
+export function getSessionsDir(): string {
+  return join(homedir(), ".cody", "sessions");
+}
+
+export function getHistoryFile(): string {
+  return join(homedir(), ".cody", "history");
+}
+
+/**
+ * Create a directory only the user can open. The chmod also covers directories
+ * made by older versions, which were readable by everyone.
+ */
+async function makePrivateDir(dir: string): Promise<void> {
+  await mkdir(dir, { recursive: true, mode: PRIVATE_DIR_MODE });
+  await chmod(dir, PRIVATE_DIR_MODE);
+}
+
+/**
+ * Start a new session. Nothing is written until the first save.
+ */
+export function createSession(): SessionInfo {
+  const now = new Date();
+  // Sortable and short enough to type: 20261019-143012-a1b2
+  const stamp = now.toISOString().slice(0, 19).replace(/[-:]/g, "").replace("T", "-");
+  return { id: `${stamp}-${randomBytes(2).toString("hex")}`, createdAt: now };
+}
+
+function firstUserPrompt(snapshot: ConversationSnapshot): string {
+  const summaryIndex = snapshot.compaction ? snapshot.compaction.summaryIndex - 1 : -1;
+  const first = snapshot.messages.find((message, index) => message.role === "user" && index !== summaryIndex);
+  return typeof first?.content === "string" ? first.content : "";
+}
+
+/**
+ * Build the file contents for a session as it is now.
+ */
+export function toSessionFile(
+  session: SessionInfo,
+  snapshot: ConversationSnapshot,
+  details: { model: string; provider: string; firstPrompt?: string }
+): SessionFile {
+  return {
+    version: SESSION_FORMAT_VERSION,
+    id: session.id,
+    model: details.model,
+    provider: details.provider,
+    cwd: process.cwd(),
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: new Date().toISOString(),
+    firstPrompt: details.firstPrompt || firstUserPrompt(snapshot),
+    ...snapshot,
+  };
+}
+
+/**
+ * Save a session. Sessions without any user message are skipped.
+ * `firstPrompt` is kept from the existing file, so compaction doesn't change it.
+ */
+export async function saveSession(
+  session: SessionInfo,
+  snapshot: ConversationSnapshot,
+  details: { model: string; provider: string }
+): Promise<void> {
+  if (!snapshot.messages.some((message) => message.role === "user")) return;
+
+  const file = join(getSessionsDir(), `${session.id}.json`);
+  const existing = await readSessionFile(file).catch(() => null);
+  const data = toSessionFile(session, snapshot, { ...details, firstPrompt: existing?.firstPrompt });
+
+  await makePrivateDir(dirname(file));
+  await writeFile(file, JSON.stringify(data, null, 2) + "\n", { encoding: "utf-8", mode: PRIVATE_FILE_MODE });
+}
+
+/**
+ * Read and check a session file.
+ */
+export async function readSessionFile(path: string): Promise<SessionFile> {
+  const data = JSON.parse(await readFile(path, "utf-8")) as Partial<SessionFile>;
+  if (!Array.isArray(data.messages)) {
+    throw new Error(`${path} is not a Cody session (no messages)`);
+  }
+  if (data.version !== undefined && data.version > SESSION_FORMAT_VERSION) {
+    throw new Error(`${path} was saved by a newer version of Cody`);
+  }
+  return data as SessionFile;
+}
+
+/**
+ * All saved sessions, most recently updated first. Unreadable files are skipped.
+ */
+export async function listSessions(): Promise<SessionFile[]> {
+  let names: string[];
+  try {
+    names = (await readdir(getSessionsDir())).filter((name) => name.endsWith(".json"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const sessions = await Promise.all(
+    names.map((name) => readSessionFile(join(getSessionsDir(), name)).catch(() => null))
+  );
+  return sessions
+    .filter((session): session is SessionFile => session !== null)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Find a session by id (a unique prefix is enough) or by the path to a session file.
+ */
+export async function findSession(idOrPath: string): Promise<SessionFile> {
+  if (idOrPath.endsWith(".json") || idOrPath.includes("/")) {
+    return readSessionFile(resolve(idOrPath));
+  }
+
+  const matches = (await listSessions()).filter((session) => session.id.startsWith(idOrPath));
+  if (matches.length === 0) {
+    throw new Error(`No saved session "${idOrPath}" - run /sessions to list them`);
+  }
+  if (matches.length > 1 && !matches.some((session) => session.id === idOrPath)) {
+    throw new Error(`"${idOrPath}" matches ${matches.length} sessions - use more of the id`);
+  }
+  return matches.find((session) => session.id === idOrPath) ?? matches[0];
+}
+
+/**
+ * The most recent session started in the current directory, if any.
+ */
+export async function findLatestSession(cwd: string = process.cwd()): Promise<SessionFile | null> {
+  return (await listSessions()).find((session) => session.cwd === cwd) ?? null;
+}
+
+/**
+ * Load saved input history, most recent first (the order readline expects).
+ */
+export async function loadInputHistory(): Promise<string[]> {
+  try {
+    const lines = (await readFile(getHistoryFile(), "utf-8")).split("\n").filter(Boolean);
+    const recent = lines.slice(-INPUT_HISTORY_SIZE);
+    // Keep the file from growing forever
+    if (lines.length > INPUT_HISTORY_SIZE * 2) {
+      await writeFile(getHistoryFile(), recent.join("\n") + "\n", { encoding: "utf-8", mode: PRIVATE_FILE_MODE });
+    }
+    return recent.reverse();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Append one input line to the history file.
+ */
+export async function appendInputHistory(line: string): Promise<void> {
+  const file = getHistoryFile();
+  await makePrivateDir(dirname(file));
+  await appendFile(file, line.replace(/\n/g, " ") + "\n", { encoding: "utf-8", mode: PRIVATE_FILE_MODE });
+}
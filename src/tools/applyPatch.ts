@@ -0,0 +1,204 @@
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import type { Tool } from "./types.js";
+import { parsePatch, applyHunks, type HunkFailure } from "./patch.js";
+import { resolveWorkspacePath } from "./workspace.js";
+import { applyFileChanges, type FileChange } from "./fileChanges.js";
+
+/**
+ * Failure for one file in the patch, reported back to the model.
+ */
+interface FileFailure {
+  path: string;
+  reason: string;
+  hunks?: HunkFailure[];
+}
+
+/**
+ * Read a file, returning null if it doesn't exist.
+ */
+async function readIfExists(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Format failures so the model can see exactly which hunks to fix.
+ */
+function formatFailures(failures: FileFailure[], cleanFiles: string[]): string {
+  const lines = ["PATCH NOT APPLIED - no files were changed.", "", "Failures:"];
+
+  for (const failure of failures) {
+    lines.push(`- ${failure.path}: ${failure.reason}`);
+    for (const hunk of failure.hunks ?? []) {
+      lines.push(`  hunk ${hunk.hunkIndex}/${hunk.hunkCount} ${hunk.header}: ${hunk.reason}`);
+      if (hunk.expected.length > 0) {
+        lines.push("  expected to find:");
+        for (const expected of hunk.expected.slice(0, 20)) {
+          lines.push(`    |${expected}`);
+        }
+        if (hunk.expected.length > 20) {
+          lines.push(`    ... (${hunk.expected.length - 20} more lines)`);
+        }
+      }
+    }
+  }
+
+  if (cleanFiles.length > 0) {
+    lines.push("", `Applied cleanly (but not written): ${cleanFiles.join(", ")}`);
+  }
+  lines.push("", "Re-read the affected files for exact context, then resend the whole patch.");
+  return lines.join("\n");
+}
+
+/**
+ * Tool: apply_patch
+ * Applies a unified diff or `*** Begin Patch` envelope to one or more files.
+ */
+export const applyPatchTool: Tool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "apply_patch",
+      description:
+        "Apply a patch that adds, deletes, renames or modifies one or more files. Accepts unified diffs " +
+        "(--- a/file / +++ b/file / @@ hunks, git rename headers supported) or the envelope format: " +
+        "*** Begin Patch, then *** Add File: <path> (lines prefixed with +), *** Delete File: <path>, or " +
+        "*** Update File: <path> (optional *** Move to: <path>) followed by @@ hunks with ' ', '+', '-' lines, " +
+        "then *** End Patch. Context is matched fuzzily. The patch is all-or-nothing: if any hunk fails, nothing is written.",
+      parameters: {
+        type: "object",
+        properties: {
+          patch: {
+            type: "string",
+            description: "The full patch text",
+          },
+        },
+        required: ["patch"],
+      },
+    },
+  },
+
+  async execute(args) {
+    const patchText = args.patch as string;
+
+    if (typeof patchText !== "string" || patchText.trim() === "") {
+      return { success: false, output: "Failed to apply patch: patch text is empty" };
+    }
+
+    let operations;
+    try {
+      operations = parsePatch(patchText);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, output: `Failed to parse patch: ${message}` };
+    }
+
+    // Check every target up front so a patch never touches files outside the workspace.
+    // All I/O goes through the checked path, so what is checked is what gets written.
+    const checkedPaths = new Map<string, string>();
+    for (const op of operations) {
+      const targets = op.type === "update" && op.moveTo ? [op.path, op.moveTo] : [op.path];
+      for (const target of targets) {
+        const resolved = await resolveWorkspacePath(target, "patch");
+        if (!resolved.ok) {
+          return resolved.result;
+        }
+        checkedPaths.set(target, resolve(resolved.path));
+      }
+    }
+    const pathOf = (target: string) => checkedPaths.get(target)!;
+
+    // Stage every change in memory first (null = file deleted) so the patch is all-or-nothing.
+    // Keyed by checked path, so "./a" and "a" are the same file.
+    const staged = new Map<string, string | null>();
+    const readStaged = async (target: string) => {
+      const path = pathOf(target);
+      return staged.has(path) ? staged.get(path)! : readIfExists(path);
+    };
+
+    const failures: FileFailure[] = [];
+    const cleanFiles: string[] = [];
+    const summary: string[] = [];
+
+    try {
+      for (const op of operations) {
+        const current = await readStaged(op.path);
+
+        if (op.type === "add") {
+          if (current !== null) {
+            failures.push({ path: op.path, reason: "cannot add - file already exists (use an update hunk instead)" });
+            continue;
+          }
+          staged.set(pathOf(op.path), op.content);
+          cleanFiles.push(op.path);
+          summary.push(`A ${op.path}`);
+          continue;
+        }
+
+        if (current === null) {
+          failures.push({ path: op.path, reason: `cannot ${op.type} - file does not exist` });
+          continue;
+        }
+
+        if (op.type === "delete") {
+          staged.set(pathOf(op.path), null);
+          cleanFiles.push(op.path);
+          summary.push(`D ${op.path}`);
+          continue;
+        }
+
+        const result = applyHunks(current, op.hunks);
+        if (result.failures.length > 0) {
+          failures.push({ path: op.path, reason: `${result.failures.length} of ${op.hunks.length} hunk(s) failed`, hunks: result.failures });
+          continue;
+        }
+
+        if (op.moveTo && pathOf(op.moveTo) !== pathOf(op.path)) {
+          if ((await readStaged(op.moveTo)) !== null) {
+            failures.push({ path: op.path, reason: `cannot move - ${op.moveTo} already exists` });
+            continue;
+          }
+          staged.set(pathOf(op.path), null);
+          staged.set(pathOf(op.moveTo), result.content);
+          summary.push(`R ${op.path} -> ${op.moveTo}`);
+        } else {
+          staged.set(pathOf(op.path), result.content);
+          summary.push(`M ${op.path}`);
+        }
+        cleanFiles.push(op.path);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, output: `Failed to apply patch: ${message}` };
+    }
+
+    if (failures.length > 0) {
+      return { success: false, output: formatFailures(failures, cleanFiles) };
+    }
+
+    try {
+      const changes: FileChange[] = [];
+      for (const [path, newContent] of staged) {
+        changes.push({ path, oldContent: await readIfExists(path), newContent });
+      }
+
+      const rejection = await applyFileChanges(changes, "apply_patch", "patch");
+      if (rejection) {
+        return rejection;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, output: `Failed to write patched files: ${message}` };
+    }
+
+    return {
+      success: true,
+      output: `Successfully applied patch:\n${summary.join("\n")}`,
+    };
+  },
+};
@@ -0,0 +1,358 @@
+/**
+ * Command Policy Engine
+ *
+ * Decides whether run_command / start_process may run a command line.
+ * The command line is split into individual commands by the shell parser,
+ * wrappers like `sudo`, `xargs` and `find -exec` are unwrapped, and each
+ * command is checked against deny, ask and allow rules (in that order).
+ * The most restrictive result across all commands wins.
+ */
+
+import { nestedScript, parseShellCommand, type ParsedCommand } from "./shellParser.js";
+
+export type PolicyAction = "allow" | "deny" | "ask";
+
+/**
+ * A rule matched against one parsed command.
+ */
+export interface PolicyRule {
+  id: string;
+  action: PolicyAction;
+  reason: string;
+  /** Program names this rule applies to (matched against the basename); omit for any */
+  commands?: string[];
+  /** Extra condition on the command's arguments and surroundings */
+  test?: (command: ParsedCommand) => boolean;
+}
+
+/**
+ * The outcome of evaluating a command line.
+ */
+export interface PolicyDecision {
+  action: PolicyAction;
+  reason: string;
+  /** The rule that produced this decision (undefined for the default) */
+  rule?: PolicyRule;
+  /** The specific command within the command line that matched */
+  command?: string;
+}
+
+// Applied to commands no rule matches
+const DEFAULT_ACTION: PolicyAction = "allow";
+
+const SHELLS = ["sh", "bash", "zsh", "dash", "ksh", "fish"];
+const DOWNLOADERS = ["curl", "wget"];
+
+// ============================================================================
+// ARGUMENT HELPERS
+// ============================================================================
+
+/**
+ * Options before "--". Combined short flags stay combined ("-rf").
+ */
+function options(command: ParsedCommand): string[] {
+  const result: string[] = [];
+  for (const arg of command.argv.slice(1)) {
+    if (arg === "--") break;
+    if (arg.startsWith("-") && arg !== "-") result.push(arg);
+  }
+  return result;
+}
+
+/**
+ * Check for a short flag (inside combined flags like "-rf") or any of the long forms.
+ */
+function hasFlag(command: ParsedCommand, short: string | null, ...long: string[]): boolean {
+  return options(command).some((opt) =>
+    opt.startsWith("--")
+      ? long.some((name) => opt === name || opt.startsWith(`${name}=`))
+      : short !== null && opt.slice(1).includes(short)
+  );
+}
+
+/**
+ * Positional (non-option) arguments after the program name.
+ */
+function positionals(command: ParsedCommand): string[] {
+  const result: string[] = [];
+  let afterDashDash = false;
+  for (const arg of command.argv.slice(1)) {
+    if (!afterDashDash && arg === "--") {
+      afterDashDash = true;
+    } else if (afterDashDash || !arg.startsWith("-")) {
+      result.push(arg);
+    }
+  }
+  return result;
+}
+
+function gitSubcommand(command: ParsedCommand): { name: string; rest: ParsedCommand } | null {
+  // Skip global options like "-C dir" or "-c key=value"
+  const argv = command.argv;
+  let index = 1;
+  while (index < argv.length && argv[index].startsWith("-")) {
+    index += argv[index] === "-C" || argv[index] === "-c" ? 2 : 1;
+  }
+  if (index >= argv.length) return null;
+  return { name: argv[index], rest: { ...command, argv: argv.slice(index) } };
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Built-in rules. Order matters only within the same action.
+ */
+export const DEFAULT_RULES: PolicyRule[] = [
+  // Destructive file operations
+  {
+    id: "rm-recursive-force",
+    action: "ask",
+    reason: "Recursive or forced delete",
+    commands: ["rm"],
+    test: (cmd) => hasFlag(cmd, "r", "--recursive") || hasFlag(cmd, "R") || hasFlag(cmd, "f", "--force"),
+  },
+  {
+    // `rm -- -rf` deletes a file called "-rf", but it reads like a recursive delete
+    id: "rm-option-like-operand",
+    action: "ask",
+    reason: "Delete of a file whose name looks like an option",
+    commands: ["rm"],
+    test: (cmd) => positionals(cmd).some((arg) => arg.startsWith("-") && arg !== "-"),
+  },
+  { id: "rmdir", action: "ask", reason: "Directory removal", commands: ["rmdir"] },
+  {
+    id: "find-delete",
+    action: "ask",
+    reason: "find that deletes or executes commands",
+    commands: ["find"],
+    test: (cmd) => cmd.argv.some((arg) => ["-delete", "-exec", "-execdir", "-ok", "-okdir"].includes(arg)),
+  },
+  {
+    id: "shred",
+    action: "ask",
+    reason: "Irrecoverable file destruction",
+    commands: ["shred", "wipefs"],
+  },
+  // System commands
+  { id: "superuser", action: "ask", reason: "Superuser command", commands: ["sudo", "doas", "su"] },
+  { id: "shutdown", action: "ask", reason: "System shutdown or reboot", commands: ["shutdown", "reboot", "halt", "poweroff"] },
+  {
+    id: "kill-force",
+    action: "ask",
+    reason: "Force kill process",
+    commands: ["kill"],
+    test: (cmd) =>
+      cmd.argv.slice(1).some((arg, index, args) =>
+        /^-(9|KILL|SIGKILL)$/i.test(arg) || (arg === "-s" && /^(9|KILL|SIGKILL)$/i.test(args[index + 1] ?? ""))
+      ),
+  },
+  { id: "kill-many", action: "ask", reason: "Kill processes by name", commands: ["killall", "pkill"] },
+  // Disk operations
+  { id: "dd", action: "ask", reason: "Low-level disk operation", commands: ["dd"] },
+  {
+    id: "mkfs",
+    action: "ask",
+    reason: "Filesystem or partition change",
+    test: (cmd) => /^mkfs(\..+)?$/.test(cmd.name) || ["fdisk", "sfdisk", "parted", "mkswap"].includes(cmd.name),
+  },
+  {
+    id: "raw-device-write",
+    action: "ask",
+    reason: "Write to a raw device",
+    test: (cmd) => cmd.redirects.some((target) => /^\/dev\/(sd|nvme|hd|vd|disk|mmcblk)/.test(target)),
+  },
+  // Network downloads piped to a shell, or sourced into the current one
+  {
+    id: "remote-script",
+    action: "ask",
+    reason: "Remote script execution",
+    commands: [...SHELLS, "source", ".", "eval"],
+    test: (cmd) => {
+      const index = cmd.pipeline.indexOf(cmd);
+      const upstream = cmd.pipeline.slice(0, index);
+      return [...upstream, ...cmd.substitutions].some((other) => DOWNLOADERS.includes(other.name));
+    },
+  },
+  // Git destructive operations
+  {
+    id: "git-force-push",
+    action: "ask",
+    reason: "Force push",
+    commands: ["git"],
+    test: (cmd) => {
+      const sub = gitSubcommand(cmd);
+      if (sub?.name !== "push") return false;
+      return (
+        hasFlag(sub.rest, "f", "--force", "--force-with-lease", "--force-if-includes", "--mirror", "--delete") ||
+        hasFlag(sub.rest, "d") ||
+        positionals(sub.rest).some((arg) => arg.startsWith("+") || arg.startsWith(":"))
+      );
+    },
+  },
+  {
+    id: "git-reset-hard",
+    action: "ask",
+    reason: "Hard reset",
+    commands: ["git"],
+    test: (cmd) => {
+      const sub = gitSubcommand(cmd);
+      return sub?.name === "reset" && hasFlag(sub.rest, null, "--hard");
+    },
+  },
+  {
+    id: "git-clean",
+    action: "ask",
+    reason: "Delete untracked files",
+    commands: ["git"],
+    test: (cmd) => {
+      const sub = gitSubcommand(cmd);
+      return sub?.name === "clean" && hasFlag(sub.rest, "f", "--force");
+    },
+  },
+  // Commands we can't see into
+  {
+    id: "dynamic-command",
+    action: "ask",
+    reason: "Command name comes from a variable or substitution",
+    test: (cmd) => cmd.dynamic,
+  },
+];
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+const ACTION_SEVERITY: Record<PolicyAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+// Wrappers that run another command, and how many of their own arguments to skip
+const WRAPPERS: Record<string, (argv: string[]) => number> = {
+  sudo: (argv) => skipOptions(argv, ["-u", "-g", "-C", "-D", "-h", "-p", "-U"]),
+  doas: (argv) => skipOptions(argv, ["-u", "-C"]),
+  env: (argv) => {
+    let index = skipOptions(argv, ["-u", "-C", "-S"]);
+    while (index < argv.length && /^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[index])) index++;
+    return index;
+  },
+  nohup: () => 1,
+  time: (argv) => skipOptions(argv, ["-f", "-o"]),
+  nice: (argv) => skipOptions(argv, ["-n"]),
+  ionice: (argv) => skipOptions(argv, ["-c", "-n", "-p"]),
+  timeout: (argv) => skipOptions(argv, ["-s", "-k", "--signal", "--kill-after"]) + 1,
+  xargs: (argv) => skipOptions(argv, ["-I", "-n", "-P", "-L", "-d", "-E", "-s", "-a"]),
+  stdbuf: (argv) => skipOptions(argv, []),
+  command: (argv) => skipOptions(argv, []),
+  exec: (argv) => skipOptions(argv, ["-a"]),
+  watch: (argv) => skipOptions(argv, ["-n", "-d"]),
+  // Multi-call binaries: `busybox rm -rf x` runs the rm applet
+  busybox: (argv) => skipOptions(argv, []),
+  toybox: (argv) => skipOptions(argv, []),
+};
+
+/**
+ * Index of the first argument after the wrapper's own options.
+ */
+function skipOptions(argv: string[], optionsWithValues: string[]): number {
+  let index = 1;
+  while (index < argv.length && argv[index].startsWith("-")) {
+    if (argv[index] === "--") return index + 1;
+    index += optionsWithValues.includes(argv[index]) ? 2 : 1;
+  }
+  return index;
+}
+
+/**
+ * Expand a command into itself plus the commands it runs indirectly
+ * (`sudo rm`, `xargs rm`, `find -exec rm {} ;`).
+ */
+function unwrap(command: ParsedCommand): ParsedCommand[] {
+  const result = [command];
+  const withArgv = (argv: string[]): ParsedCommand => ({
+    ...command,
+    argv,
+    name: argv[0].slice(argv[0].lastIndexOf("/") + 1),
+  });
+
+  const skip = WRAPPERS[command.name];
+  if (skip) {
+    const start = skip(command.argv);
+    if (start < command.argv.length) {
+      result.push(...unwrap(withArgv(command.argv.slice(start))));
+    }
+  }
+
+  if (command.name === "find") {
+    command.argv.forEach((arg, index) => {
+      if (["-exec", "-execdir", "-ok", "-okdir"].includes(arg)) {
+        const end = command.argv.findIndex((a, j) => j > index && (a === ";" || a === "+"));
+        const inner = command.argv.slice(index + 1, end === -1 ? undefined : end);
+        if (inner.length > 0) result.push(...unwrap(withArgv(inner)));
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Check one command against the rules: deny first, then ask, then allow.
+ */
+function matchRule(command: ParsedCommand, rules: PolicyRule[]): PolicyRule | undefined {
+  for (const action of ["deny", "ask", "allow"] as const) {
+    const rule = rules.find(
+      (r) =>
+        r.action === action &&
+        (!r.commands || r.commands.includes(command.name)) &&
+        (!r.test || r.test(command))
+    );
+    if (rule) return rule;
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate a full command line against the policy.
+ * `overrides` (the user's trusted permission rules) are checked first for each
+ * command, so an allow rule there can skip a default ask. Rules that must not
+ * loosen the defaults belong in `rules` instead, where deny beats ask beats allow.
+ */
+export function evaluateCommand(
+  commandLine: string,
+  rules: PolicyRule[] = DEFAULT_RULES,
+  overrides: PolicyRule[] = []
+): PolicyDecision {
+  const parsed = parseShellCommand(commandLine);
+
+  let decision: PolicyDecision = { action: DEFAULT_ACTION, reason: "No rule matched" };
+
+  if (parsed.errors.length > 0) {
+    decision = { action: "ask", reason: `Could not fully parse command (${parsed.errors[0]})` };
+  }
+
+  const commands = parsed.commands.flatMap(unwrap);
+  for (const command of commands) {
+    const rule = matchRule(command, overrides) ?? matchRule(command, rules);
+    if (!rule) continue;
+    if (ACTION_SEVERITY[rule.action] > ACTION_SEVERITY[decision.action] || (!decision.rule && rule.action === decision.action)) {
+      decision = {
+        action: rule.action,
+        reason: rule.reason,
+        rule,
+        command: command.argv.join(" ") || commandLine,
+      };
+    }
+  }
+
+  // The parser only looks inside `bash -c "..."` run directly, not behind a wrapper (`env bash -c "..."`)
+  for (const command of commands) {
+    const script = parsed.commands.includes(command) ? null : nestedScript(command);
+    if (script === null) continue;
+    const inner = evaluateCommand(script, rules, overrides);
+    if (ACTION_SEVERITY[inner.action] > ACTION_SEVERITY[decision.action]) {
+      decision = inner;
+    }
+  }
+
+  return decision;
+}
@@ -0,0 +1,186 @@
+import { readFile } from "fs/promises";
+import type { Tool } from "./types.js";
+import { resolveWorkspacePath } from "./workspace.js";
+import { applyFileChanges } from "./fileChanges.js";
+
+/**
+ * A single search/replace hunk.
+ */
+interface EditHunk {
+  old_string: string;
+  new_string: string;
+  replace_all: boolean;
+}
+
+/**
+ * Normalize the tool arguments into a list of hunks.
+ * Accepts either an `edits` array or a single top-level old_string/new_string pair,
+ * since local models often skip the array wrapper for one edit.
+ */
+function parseHunks(args: Record<string, unknown>): EditHunk[] | string {
+  const rawEdits = Array.isArray(args.edits)
+    ? args.edits
+    : args.old_string !== undefined
+      ? [{ old_string: args.old_string, new_string: args.new_string, replace_all: args.replace_all }]
+      : null;
+
+  if (!rawEdits || rawEdits.length === 0) {
+    return "No edits provided. Pass an \"edits\" array of {old_string, new_string} objects.";
+  }
+
+  const hunks: EditHunk[] = [];
+  for (const [index, raw] of rawEdits.entries()) {
+    if (!raw || typeof raw !== "object") {
+      return `Edit ${index + 1} is not an object`;
+    }
+    const edit = raw as Record<string, unknown>;
+    if (typeof edit.old_string !== "string" || edit.old_string === "") {
+      return `Edit ${index + 1}: old_string must be a non-empty string`;
+    }
+    if (typeof edit.new_string !== "string") {
+      return `Edit ${index + 1}: new_string must be a string`;
+    }
+    if (edit.old_string === edit.new_string) {
+      return `Edit ${index + 1}: old_string and new_string are identical`;
+    }
+    hunks.push({
+      old_string: edit.old_string,
+      new_string: edit.new_string,
+      replace_all: edit.replace_all === true,
+    });
+  }
+  return hunks;
+}
+
+/**
+ * Find the 1-based line numbers of every occurrence of `search` in `content`.
+ */
+function findMatchLines(content: string, search: string): number[] {
+  const lines: number[] = [];
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    lines.push(content.slice(0, index).split("\n").length);
+    index = content.indexOf(search, index + search.length);
+  }
+  return lines;
+}
+
+/**
+ * Tool: edit_file
+ * Applies search/replace hunks to an existing file without rewriting it.
+ */
+export const editFileTool: Tool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "edit_file",
+      description:
+        "Edit an existing file by replacing exact text. Each edit's old_string must match the file exactly " +
+        "(including whitespace) and be unique unless replace_all is true. Edits are applied in order and " +
+        "the file is only written if every edit succeeds. Prefer this over write_file for changes to existing files.",
+      parameters: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the file to edit",
+          },
+          edits: {
+            type: "array",
+            description: "One or more search/replace hunks, applied in order",
+            items: {
+              type: "object",
+              description: "A single search/replace hunk",
+              properties: {
+                old_string: {
+                  type: "string",
+                  description: "The exact text to find. Include enough surrounding lines to make it unique.",
+                },
+                new_string: {
+                  type: "string",
+                  description: "The text to replace it with",
+                },
+                replace_all: {
+                  type: "boolean",
+                  description: "Replace every occurrence instead of requiring a unique match (default false)",
+                },
+              },
+              required: ["old_string", "new_string"],
+            },
+          },
+        },
+        required: ["path", "edits"],
+      },
+    },
+  },
+
+  async execute(args) {
+    const resolved = await resolveWorkspacePath(args.path as string, "edit");
+    if (!resolved.ok) {
+      return resolved.result;
+    }
+    const path = resolved.path;
+
+    const hunks = parseHunks(args);
+    if (typeof hunks === "string") {
+      return { success: false, output: `Failed to edit file: ${hunks}` };
+    }
+
+    let original: string;
+    try {
+      original = await readFile(path, "utf-8");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        output: `Failed to edit file: ${message}. Use write_file to create new files.`,
+      };
+    }
+
+    // Apply every hunk in memory first so a failing hunk leaves the file untouched
+    let content = original;
+    let replacements = 0;
+    for (const [index, hunk] of hunks.entries()) {
+      const matches = findMatchLines(content, hunk.old_string);
+
+      if (matches.length === 0) {
+        return {
+          success: false,
+          output: `Failed to edit file: edit ${index + 1} of ${hunks.length} - old_string not found in ${path}. ` +
+            `Read the file again and copy the text exactly, including indentation. No changes were written.`,
+        };
+      }
+
+      if (matches.length > 1 && !hunk.replace_all) {
+        return {
+          success: false,
+          output: `Failed to edit file: edit ${index + 1} of ${hunks.length} - old_string matches ${matches.length} ` +
+            `locations in ${path} (lines ${matches.join(", ")}). Add surrounding context to make it unique, ` +
+            `or set replace_all to true. No changes were written.`,
+        };
+      }
+
+      // split/join avoids special replacement patterns like "$&" in new_string
+      content = content.split(hunk.old_string).join(hunk.new_string);
+      replacements += matches.length;
+    }
+
+    try {
+      const rejection = await applyFileChanges([{ path, oldContent: original, newContent: content }], "edit_file", "edit");
+      if (rejection) {
+        return rejection;
+      }
+
+      return {
+        success: true,
+        output: `Successfully applied ${hunks.length} edit(s) (${replacements} replacement(s)) to ${path}`,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        output: `Failed to write file: ${message}`,
+      };
+    }
+  },
+};
@@ -0,0 +1,63 @@
+import { test, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runtimeSettings } from "../config.js";
+import { applyFileChanges } from "./fileChanges.js";
+
+let dir: string;
+const originalMode = runtimeSettings.approvalMode;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), "cody-changes-"));
+});
+
+afterEach(() => {
+  runtimeSettings.approvalMode = originalMode;
+  runtimeSettings.approvalCallback = null;
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+test("a line-ending-only change still needs approval in suggest mode", async () => {
+  const path = join(dir, "crlf.txt");
+  await writeFile(path, "a\nb\n");
+  runtimeSettings.approvalMode = "suggest";
+
+  const result = await applyFileChanges([{ path, oldContent: "a\nb\n", newContent: "a\r\nb\r\n" }], "write_file", "write");
+
+  assert.equal(result?.success, false);
+  assert.match(result!.output, /BLOCKED/);
+  assert.equal(await readFile(path, "utf-8"), "a\nb\n");
+});
+
+test("the approval prompt says when only line endings changed", async () => {
+  const path = join(dir, "newline.txt");
+  await writeFile(path, "a\nb");
+  runtimeSettings.approvalMode = "suggest";
+
+  let details: string | undefined;
+  runtimeSettings.approvalCallback = async (_request, _reason, options) => {
+    details = options?.details;
+    return { action: "yes" };
+  };
+
+  const result = await applyFileChanges([{ path, oldContent: "a\nb", newContent: "a\nb\n" }], "write_file", "write");
+
+  assert.equal(result, null);
+  assert.match(details ?? "", /line endings \/ trailing newline only/);
+  assert.equal(await readFile(path, "utf-8"), "a\nb\n");
+});
+
+test("an unchanged file is written without asking", async () => {
+  const path = join(dir, "same.txt");
+  await writeFile(path, "same\n");
+  runtimeSettings.approvalMode = "suggest";
+
+  const result = await applyFileChanges([{ path, oldContent: "same\n", newContent: "same\n" }], "write_file", "write");
+
+  assert.equal(result, null);
+});
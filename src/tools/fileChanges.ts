@@ -0,0 +1,178 @@
+/**
+ * File Change Approval
+ *
+ * write_file, edit_file and apply_patch all write through here, so every
+ * change is handled the same way under the current approval mode:
+ * - suggest: the diff is shown and the user must approve it first
+ * - auto-edit: the change is written and the diff is shown
+ * - full-auto: the change is written silently
+ *
+ * Saved permission rules come first: deny blocks the change, ask always
+ * prompts, and allow skips the prompt in suggest mode.
+ */
+
+import { mkdir, unlink, writeFile } from "fs/promises";
+import { dirname, isAbsolute, relative, resolve } from "path";
+import type { ToolResult } from "./types.js";
+import { runtimeSettings } from "../config.js";
+import { recordFileChange } from "../checkpoints.js";
+import { addPermissionRule, checkPathPermission, describeRule, toRulePath } from "../permissions.js";
+import { formatUnifiedDiff } from "../utils/diff.js";
+import { colors } from "../utils/colors.js";
+
+/**
+ * A pending change to one file. null content means the file doesn't exist
+ * (before) or should be deleted (after).
+ */
+export interface FileChange {
+  path: string;
+  oldContent: string | null;
+  newContent: string | null;
+}
+
+/**
+ * Path to show the user: relative to the project when inside it.
+ */
+function displayPath(path: string): string {
+  const rel = relative(process.cwd(), resolve(path));
+  return rel && !rel.startsWith("..") && !isAbsolute(rel) ? rel : resolve(path);
+}
+
+function formatDiffs(changes: FileChange[]): string {
+  return changes
+    .map((change) => {
+      const path = displayPath(change.path);
+      const diff = formatUnifiedDiff(path, change.oldContent, change.newContent, { color: true });
+      if (diff !== "" || change.oldContent === change.newContent) {
+        return diff;
+      }
+      // The line diff ignores CRLF vs LF and the final newline - say what changed instead
+      const note = change.oldContent === null
+        ? "new empty file"
+        : change.newContent === null
+          ? "deletes an empty file"
+          : "line endings / trailing newline only";
+      return `${colors.bold}${path}${colors.reset}: ${colors.yellow}${note}${colors.reset}`;
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Tools an "always allow" answer covers. Not "*": that would also match read_file
+// and switch off the sensitive-file gate for the same path.
+const FILE_CHANGE_TOOLS = ["write_file", "edit_file", "apply_patch"];
+
+/**
+ * Ask the user to approve a set of changes.
+ * Returns null when the changes may be written.
+ *
+ * @param offerAlways - Offer saving an allow rule (pointless when an ask rule caused the prompt)
+ */
+async function requestApproval(
+  changes: FileChange[],
+  operation: string,
+  reason: string,
+  diff: string,
+  offerAlways: boolean
+): Promise<ToolResult | null> {
+  const files = changes.map((change) => displayPath(change.path)).join(", ");
+
+  if (!runtimeSettings.approvalCallback) {
+    return {
+      success: false,
+      output: `⚠️  BLOCKED: ${operation} ${files} - ${reason}. Run interactively to approve file changes.`,
+    };
+  }
+
+  const response = await runtimeSettings.approvalCallback(
+    `${operation} ${files}`,
+    reason,
+    {
+      details: diff,
+      always: offerAlways
+        ? `Always allow changes to ${changes.length === 1 ? "this file" : "these files"} in this project`
+        : undefined,
+    }
+  );
+
+  if (response.action === "always") {
+    for (const change of changes) {
+      for (const tool of FILE_CHANGE_TOOLS) {
+        await addPermissionRule({ tool, pattern: toRulePath(change.path), action: "allow" });
+      }
+    }
+    return null;
+  }
+
+  if (response.action === "yes") {
+    return null;
+  }
+
+  const said = response.action === "instruct" ? ` User said: "${response.message}".` : "";
+  return {
+    success: false,
+    silent: true,
+    output: `CHANGES NOT WRITTEN. User rejected the change to ${files}.${said} Do NOT claim the file was changed.`,
+  };
+}
+
+/**
+ * Confirm and write a set of file changes according to permission rules and the approval mode.
+ * Returns null once everything is written, or the ToolResult to send back if
+ * the change was denied or rejected. Filesystem errors are thrown to the caller.
+ *
+ * @param changes - Files to write or delete
+ * @param tool - Name of the calling tool, for permission rules
+ * @param operation - Short verb for the prompt (e.g. "write", "edit", "patch")
+ */
+export async function applyFileChanges(
+  changes: FileChange[],
+  tool: string,
+  operation: string
+): Promise<ToolResult | null> {
+  const rules = await Promise.all(changes.map((change) => checkPathPermission(tool, change.path)));
+
+  const denied = rules.find((rule) => rule?.action === "deny");
+  if (denied) {
+    return {
+      success: false,
+      output: `⛔ DENIED: ${operation} ${changes.map((change) => displayPath(change.path)).join(", ")} - ` +
+        `blocked by ${denied.scope} permission rule: ${describeRule(denied)}. No files were changed.`,
+    };
+  }
+
+  const mode = runtimeSettings.approvalMode;
+  const askRule = rules.find((rule) => rule?.action === "ask");
+  const unapproved = mode === "suggest" && rules.some((rule) => rule?.action !== "allow");
+  const diff = mode === "full-auto" && !askRule ? "" : formatDiffs(changes);
+  const changed = changes.some((change) => change.oldContent !== change.newContent);
+  const needsApproval = changed && (askRule !== undefined || unapproved);
+
+  if (needsApproval) {
+    const reason = askRule
+      ? `Matches ${askRule.scope} permission rule: ${describeRule(askRule)}`
+      : "Approval mode is suggest - review the diff";
+    const rejection = await requestApproval(changes, operation, reason, diff, !askRule);
+    if (rejection) {
+      return rejection;
+    }
+  }
+
+  for (const change of changes) {
+    if (change.newContent === null) {
+      await unlink(change.path);
+    } else {
+      await mkdir(dirname(change.path), { recursive: true });
+      await writeFile(change.path, change.newContent, "utf-8");
+    }
+    // Snapshot for /undo and /rewind
+    recordFileChange(change.path, change.oldContent, change.newContent);
+  }
+
+  // Approved changes were already shown in the prompt
+  if (!needsApproval && diff !== "") {
+    runtimeSettings.diffDisplayCallback?.(diff);
+  }
+
+  return null;
+}
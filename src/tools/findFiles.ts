@@ -0,0 +1,103 @@
+import { stat } from "fs/promises";
+import type { Tool } from "./types.js";
+import { resolveWorkspacePath } from "./workspace.js";
+import { walkFiles } from "../utils/fileWalker.js";
+import { matchesGlob } from "../utils/glob.js";
+
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS_LIMIT = 1000;
+
+/**
+ * Tool: find_files
+ * Finds files matching glob patterns, most recently modified first.
+ */
+export const findFilesTool: Tool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "find_files",
+      description:
+        "Find files by glob pattern across the whole project in one call, e.g. \"src/**/*.ts\" or \"**/*.{json,yml}\". " +
+        "Respects .gitignore / .ignore files and skips node_modules. Results are sorted by modification time, newest first.",
+      parameters: {
+        type: "object",
+        properties: {
+          pattern: {
+            type: "string",
+            description:
+              "Glob pattern relative to the search path. Patterns without \"/\" match file names at any depth (\"*.md\").",
+          },
+          path: {
+            type: "string",
+            description: "Directory to search from (defaults to current directory)",
+          },
+          max_results: {
+            type: "number",
+            description: `Maximum number of files to return (default ${DEFAULT_MAX_RESULTS}, max ${MAX_RESULTS_LIMIT})`,
+          },
+        },
+        required: ["pattern"],
+      },
+    },
+  },
+
+  readOnly: true,
+
+  async execute(args, context) {
+    const pattern = args.pattern as string;
+    const resolved = await resolveWorkspacePath((args.path as string) || ".", "search");
+    if (!resolved.ok) {
+      return resolved.result;
+    }
+    const path = resolved.path;
+    const requested = Number(args.max_results);
+    const maxResults = Number.isFinite(requested) && requested > 0
+      ? Math.min(Math.trunc(requested), MAX_RESULTS_LIMIT)
+      : DEFAULT_MAX_RESULTS;
+
+    if (typeof pattern !== "string" || pattern.trim() === "") {
+      return { success: false, output: "Failed to find files: pattern must be a non-empty glob" };
+    }
+
+    const matches: { path: string; mtime: number }[] = [];
+    try {
+      const stats = await stat(path);
+      if (!stats.isDirectory()) {
+        return { success: false, output: `Failed to find files: "${path}" is not a directory` };
+      }
+
+      for await (const entry of walkFiles(path)) {
+        if (context.signal?.aborted) {
+          return { success: false, output: "Find cancelled by the user" };
+        }
+        if (!matchesGlob(entry.relativePath, pattern)) continue;
+        try {
+          const fileStats = await stat(entry.absolutePath);
+          matches.push({ path: entry.path, mtime: fileStats.mtimeMs });
+        } catch {
+          // File vanished while walking
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, output: `Failed to find files: ${message}` };
+    }
+
+    if (matches.length === 0) {
+      return { success: true, output: `No files match "${pattern}" in ${path}` };
+    }
+
+    matches.sort((a, b) => b.mtime - a.mtime || a.path.localeCompare(b.path));
+
+    const shown = matches.slice(0, maxResults).map((match) => match.path);
+    const omitted = matches.length - shown.length;
+    if (omitted > 0) {
+      shown.push(`... ${omitted} more match(es) omitted - use a narrower pattern or raise max_results`);
+    }
+
+    return {
+      success: true,
+      output: shown.join("\n"),
+    };
+  },
+};
@@ -0,0 +1,303 @@
+import { execFile } from "child_process";
+import { resolve } from "path";
+import { promisify } from "util";
+import type { Tool } from "./types.js";
+import { checkSensitiveFile } from "./sensitiveFiles.js";
+
+const execFileAsync = promisify(execFile);
+
+const SUBCOMMANDS = ["status", "diff", "log", "blame", "show"] as const;
+type GitSubcommand = (typeof SUBCOMMANDS)[number];
+
+const DEFAULT_LOG_LIMIT = 20;
+const DEFAULT_LINE_LIMIT = 400;
+
+// Diff drivers, textconv filters and fsmonitor hooks are programs named in the
+// repo's config, so a cloned repo could run anything through them
+const SAFE_DIFF_OPTIONS = ["--no-ext-diff", "--no-textconv"];
+
+/**
+ * Run git with paging and colors disabled. Never goes through a shell.
+ * --no-optional-locks keeps `status` from rewriting the index, so calls can run in parallel.
+ */
+async function runGit(args: string[], signal?: AbortSignal): Promise<string> {
+  const { stdout } = await execFileAsync(
+    "git",
+    [
+      "--no-pager",
+      "--no-optional-locks",
+      "-c", "color.ui=false",
+      "-c", "core.quotepath=false",
+      "-c", "core.fsmonitor=false",
+      ...args,
+    ],
+    {
+      timeout: 30000,
+      signal,
+      maxBuffer: 10 * 1024 * 1024,
+      env: { ...process.env, GIT_PAGER: "cat", GIT_TERMINAL_PROMPT: "0" },
+    }
+  );
+  return stdout;
+}
+
+/**
+ * Reject values that git would parse as options (e.g. a ref of "--output=/tmp/x").
+ */
+function assertNotOption(value: string, name: string): void {
+  if (value.startsWith("-")) {
+    throw new Error(`${name} must not start with "-": ${value}`);
+  }
+}
+
+/**
+ * Return one page of lines with a note explaining how to fetch the next page.
+ */
+function paginateLines(text: string, offset: number, limit: number): string {
+  const lines = text.replace(/\n$/, "").split("\n");
+  const page = lines.slice(offset, offset + limit);
+  if (offset === 0 && page.length === lines.length) {
+    return page.join("\n");
+  }
+  const end = offset + page.length;
+  const more = end < lines.length ? ` Call again with offset=${end} for more.` : "";
+  return `${page.join("\n")}\n\n[Lines ${offset + 1}-${end} of ${lines.length}.${more}]`;
+}
+
+/**
+ * Summarize `git status --porcelain=v1 --branch` output into labelled groups.
+ */
+function formatStatus(porcelain: string): string {
+  const staged: string[] = [];
+  const unstaged: string[] = [];
+  const untracked: string[] = [];
+  const conflicted: string[] = [];
+  let branch = "";
+
+  for (const line of porcelain.split("\n")) {
+    if (!line) continue;
+    if (line.startsWith("## ")) {
+      branch = line.slice(3);
+      continue;
+    }
+    const index = line[0];
+    const worktree = line[1];
+    const path = line.slice(3);
+
+    if (index === "?" && worktree === "?") {
+      untracked.push(path);
+    } else if (index === "U" || worktree === "U" || (index === "A" && worktree === "A") || (index === "D" && worktree === "D")) {
+      conflicted.push(path);
+    } else {
+      if (index !== " ") staged.push(`${index} ${path}`);
+      if (worktree !== " ") unstaged.push(`${worktree} ${path}`);
+    }
+  }
+
+  const sections = [`Branch: ${branch || "(unknown)"}`];
+  const addSection = (title: string, entries: string[]) => {
+    if (entries.length > 0) {
+      sections.push(`${title} (${entries.length}):\n${entries.map((e) => `  ${e}`).join("\n")}`);
+    }
+  };
+  addSection("Conflicted", conflicted);
+  addSection("Staged", staged);
+  addSection("Unstaged", unstaged);
+  addSection("Untracked", untracked);
+
+  if (sections.length === 1) sections.push("Working tree clean");
+  return sections.join("\n");
+}
+
+/**
+ * Condense `git blame --line-porcelain` into "line sha author date | text" rows.
+ */
+function formatBlame(porcelain: string): string {
+  const rows: string[] = [];
+  let sha = "";
+  let lineNumber = "";
+  let author = "";
+  let time = "";
+
+  for (const line of porcelain.split("\n")) {
+    const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+    if (header) {
+      sha = header[1].slice(0, 8);
+      lineNumber = header[2];
+    } else if (line.startsWith("author ")) {
+      author = line.slice("author ".length);
+    } else if (line.startsWith("author-time ")) {
+      time = new Date(parseInt(line.slice("author-time ".length), 10) * 1000).toISOString().slice(0, 10);
+    } else if (line.startsWith("\t")) {
+      rows.push(`${lineNumber.padStart(5)} ${sha} ${author} ${time} | ${line.slice(1)}`);
+    }
+  }
+  return rows.join("\n");
+}
+
+/**
+ * Tool: git
+ * Read-only access to repository state without going through the shell.
+ */
+export const gitTool: Tool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "git",
+      description:
+        "Inspect the git repository (read-only). Subcommands: status (grouped staged/unstaged/untracked), " +
+        "diff (working tree, staged, or against a ref/range), log (one line per commit), blame (per-line author/date), " +
+        "show (a commit or a file at a ref). Large output is paginated with offset/limit.",
+      parameters: {
+        type: "object",
+        properties: {
+          subcommand: {
+            type: "string",
+            description: "Which git operation to run",
+            enum: [...SUBCOMMANDS],
+          },
+          paths: {
+            type: "array",
+            description:
+              "Limit output to these files or directories. blame needs exactly one file; show with one file returns its contents at ref",
+            items: { type: "string", description: "A file or directory path" },
+          },
+          ref: {
+            type: "string",
+            description:
+              "diff: ref or range to compare (e.g. \"main\", \"HEAD~3..HEAD\"); log: starting ref; show: commit (default HEAD); blame: revision",
+          },
+          staged: {
+            type: "boolean",
+            description: "diff only: show staged changes instead of unstaged",
+          },
+          stat: {
+            type: "boolean",
+            description: "diff/show only: show a per-file change summary instead of the full patch",
+          },
+          start_line: {
+            type: "number",
+            description: "blame only: first line to blame",
+          },
+          end_line: {
+            type: "number",
+            description: "blame only: last line to blame",
+          },
+          offset: {
+            type: "number",
+            description: "Pagination: commits to skip for log, output lines to skip otherwise (default 0)",
+          },
+          limit: {
+            type: "number",
+            description: `Pagination: commits for log (default ${DEFAULT_LOG_LIMIT}), output lines otherwise (default ${DEFAULT_LINE_LIMIT})`,
+          },
+        },
+        required: ["subcommand"],
+      },
+    },
+  },
+
+  readOnly: true,
+
+  async execute(args, context) {
+    const subcommand = args.subcommand as GitSubcommand;
+    const paths = Array.isArray(args.paths) ? args.paths.map(String) : [];
+    const ref = typeof args.ref === "string" && args.ref.trim() ? args.ref.trim() : undefined;
+    const offset = Math.max(0, Math.trunc(Number(args.offset) || 0));
+    const requestedLimit = Math.max(0, Math.trunc(Number(args.limit) || 0));
+
+    if (!SUBCOMMANDS.includes(subcommand)) {
+      return {
+        success: false,
+        output: `Unknown git subcommand "${args.subcommand}". Use one of: ${SUBCOMMANDS.join(", ")}`,
+      };
+    }
+
+    try {
+      paths.forEach((path) => assertNotOption(path, "path"));
+      if (ref) assertNotOption(ref, "ref");
+
+      switch (subcommand) {
+        case "status": {
+          const output = await runGit(
+            ["status", "--porcelain=v1", "--branch", "--untracked-files=all", "--", ...paths],
+            context.signal
+          );
+          return { success: true, output: formatStatus(output) };
+        }
+
+        case "diff": {
+          const gitArgs = ["diff", ...SAFE_DIFF_OPTIONS];
+          if (args.staged === true) gitArgs.push("--cached");
+          if (args.stat === true) gitArgs.push("--stat");
+          if (ref) gitArgs.push(ref);
+          const output = await runGit([...gitArgs, "--", ...paths], context.signal);
+          return {
+            success: true,
+            output: output.trim()
+              ? paginateLines(output, offset, requestedLimit || DEFAULT_LINE_LIMIT)
+              : "No differences",
+          };
+        }
+
+        case "log": {
+          const limit = requestedLimit || DEFAULT_LOG_LIMIT;
+          const gitArgs = [
+            "log",
+            ...SAFE_DIFF_OPTIONS,
+            "--format=%h %ad %an: %s",
+            "--date=short",
+            `--skip=${offset}`,
+            `--max-count=${limit + 1}`,
+          ];
+          if (ref) gitArgs.push(ref);
+          const commits = (await runGit([...gitArgs, "--", ...paths], context.signal)).split("\n").filter(Boolean);
+          if (commits.length === 0) {
+            return { success: true, output: "No commits found" };
+          }
+          const page = commits.slice(0, limit);
+          const more = commits.length > limit ? `\n\n[More commits available - call again with offset=${offset + limit}]` : "";
+          return { success: true, output: page.join("\n") + more };
+        }
+
+        case "blame": {
+          if (paths.length !== 1) {
+            return { success: false, output: "blame requires exactly one file in paths" };
+          }
+          const gitArgs = ["blame", "--no-textconv", "--line-porcelain"];
+          const start = Math.trunc(Number(args.start_line) || 0);
+          const end = Math.trunc(Number(args.end_line) || 0);
+          if (start > 0) gitArgs.push("-L", end >= start ? `${start},${end}` : `${start},`);
+          if (ref) gitArgs.push(ref);
+          const output = formatBlame(await runGit([...gitArgs, "--", paths[0]], context.signal));
+          return { success: true, output: paginateLines(output, offset, requestedLimit || DEFAULT_LINE_LIMIT) };
+        }
+
+        case "show": {
+          const target = ref ?? "HEAD";
+          let gitArgs: string[];
+          if (paths.length === 1 && args.stat !== true) {
+            // That's a file read, so .env and keys need approval here as in read_file
+            const denied = await checkSensitiveFile(paths[0], resolve(paths[0]));
+            if (denied) {
+              return denied;
+            }
+            // A single path shows that file's contents at the ref ("./" keeps it relative to cwd)
+            gitArgs = ["show", ...SAFE_DIFF_OPTIONS, `${target}:./${paths[0].replace(/^\.\//, "")}`];
+          } else {
+            gitArgs = ["show", ...SAFE_DIFF_OPTIONS, "--format=%H%n%an <%ae>%n%ad%n%n%B"];
+            if (args.stat === true) gitArgs.push("--stat");
+            gitArgs.push(target, "--", ...paths);
+          }
+          const output = await runGit(gitArgs, context.signal);
+          return { success: true, output: paginateLines(output, offset, requestedLimit || DEFAULT_LINE_LIMIT) };
+        }
+      }
+    } catch (error) {
+      // execFile errors carry git's stderr, which explains most failures (bad ref, not a repo)
+      const stderr = error && typeof error === "object" && "stderr" in error ? String(error.stderr).trim() : "";
+      const message = stderr || (error instanceof Error ? error.message : String(error));
+      return { success: false, output: `git ${subcommand} failed: ${message}` };
+    }
+  },
+};
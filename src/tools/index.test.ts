@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { executeTool, getToolDefinitions } from "./index.js";
+
+test("apply_patch is registered", async () => {
+  const names = getToolDefinitions().map((definition) => definition.function.name);
+  assert.ok(names.includes("apply_patch"));
+
+  const result = await executeTool("apply_patch", { patch: "" });
+  assert.equal(result.success, false);
+  assert.equal(result.output, "Failed to apply patch: patch text is empty");
+});
+
+test("unknown tools are reported", async () => {
+  const result = await executeTool("no_such_tool", {});
+  assert.deepEqual(result, { success: false, output: "Unknown tool: no_such_tool" });
+});
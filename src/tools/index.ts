@@ -5,18 +5,32 @@
  * Provides the tool definitions (for the LLM) and execution functions.
  */
 
-import type { Tool, ToolResult, FunctionToolDefinition } from "./types.js";
+import type { Tool, ToolContext, ToolResult, FunctionToolDefinition } from "./types.js";
 import { readFileTool } from "./readFile.js";
 import { writeFileTool } from "./writeFile.js";
+import { editFileTool } from "./editFile.js";
+import { applyPatchTool } from "./applyPatch.js";
 import { listDirectoryTool } from "./listDirectory.js";
 import { runCommandTool } from "./runCommand.js";
+import { searchCodeTool } from "./searchCode.js";
+import { findFilesTool } from "./findFiles.js";
+import { gitTool } from "./git.js";
+import { startProcessTool, readProcessOutputTool, killProcessTool } from "./processTools.js";
 
 // All available tools
 const tools: Tool[] = [
   readFileTool,
   writeFileTool,
+  applyPatchTool,
+  editFileTool,
   listDirectoryTool,
+  searchCodeTool,
+  findFilesTool,
+  gitTool,
   runCommandTool,
+  startProcessTool,
+  readProcessOutputTool,
+  killProcessTool,
 ];
 
 // Map for quick lookup by name
@@ -32,13 +46,22 @@ export function getToolDefinitions(): FunctionToolDefinition[] {
   return tools.map((tool) => tool.definition);
 }
 
+/**
+ * Check whether a tool is safe to run in parallel with other read-only calls.
+ * Unknown tools count as mutating.
+ */
+export function isReadOnlyTool(name: string): boolean {
+  return toolMap.get(name)?.readOnly === true;
+}
+
 /**
  * Execute a tool by name with the given arguments.
  * Returns the result or an error message if the tool doesn't exist.
  */
 export async function executeTool(
   name: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  context: ToolContext = {}
 ): Promise<ToolResult> {
   const tool = toolMap.get(name);
 
@@ -49,8 +72,11 @@ export async function executeTool(
     };
   }
 
-  return tool.execute(args);
+  return tool.execute(args, context);
 }
 
+export { listProcesses, killAllProcesses, describeStatus } from "./processManager.js";
+export { resetShellSession } from "./shellSession.js";
+
 // Re-export types
-export type { Tool, ToolResult } from "./types.js";
+export type { Tool, ToolContext, ToolResult } from "./types.js";
@@ -1,10 +1,143 @@
 import { readdir, stat } from "fs/promises";
 import { join } from "path";
 import type { Tool } from "./types.js";
+import { resolveWorkspacePath } from "./workspace.js";
+import { ALWAYS_IGNORED, IgnoreMatcher, loadAncestorIgnores } from "../utils/fileWalker.js";
+
+const MAX_DEPTH = 10;
+// Entries shown per directory before the rest are summarized
+const MAX_ENTRIES_PER_DIR = 100;
+// Total output lines before the listing stops
+const MAX_TOTAL_LINES = 1000;
+
+/**
+ * Format a byte count for display.
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface ListOptions {
+  depth: number;
+  showSizes: boolean;
+  showHidden: boolean;
+  respectGitignore: boolean;
+}
+
+/**
+ * A directory entry, typed by following symlinks ("unknown" when the target is missing).
+ */
+interface Entry {
+  name: string;
+  kind: "dir" | "file" | "unknown";
+  symlink: boolean;
+}
+
+/**
+ * Running totals for the summary line.
+ */
+interface ListStats {
+  directories: number;
+  files: number;
+  ignored: number;
+  truncated: boolean;
+}
+
+async function readEntries(dir: string): Promise<Entry[]> {
+  const dirents = await readdir(dir, { withFileTypes: true });
+  return Promise.all(
+    dirents.map(async (dirent): Promise<Entry> => {
+      const symlink = dirent.isSymbolicLink();
+      try {
+        const stats = await stat(join(dir, dirent.name));
+        return { name: dirent.name, kind: stats.isDirectory() ? "dir" : "file", symlink };
+      } catch {
+        return { name: dirent.name, kind: "unknown", symlink };
+      }
+    })
+  );
+}
+
+/**
+ * Append the entries of one directory (and its children, up to the depth limit) to `lines`.
+ */
+async function listTree(
+  dir: string,
+  level: number,
+  options: ListOptions,
+  matcher: IgnoreMatcher,
+  lines: string[],
+  stats: ListStats
+): Promise<void> {
+  const indent = "  ".repeat(level - 1);
+  const dirMatcher = options.respectGitignore && level > 1 ? await matcher.extend(dir) : matcher;
+
+  let entries = (await readEntries(dir))
+    .filter((entry) => options.showHidden || !entry.name.startsWith("."))
+    .sort((a, b) => Number(b.kind === "dir") - Number(a.kind === "dir") || a.name.localeCompare(b.name));
+
+  if (options.respectGitignore) {
+    const visible = entries.filter(
+      (entry) => ALWAYS_IGNORED.has(entry.name) || !dirMatcher.isIgnored(join(dir, entry.name), entry.kind === "dir")
+    );
+    stats.ignored += entries.length - visible.length;
+    entries = visible;
+  }
+
+  const overflow = entries.length - MAX_ENTRIES_PER_DIR;
+  if (overflow > 0) entries = entries.slice(0, MAX_ENTRIES_PER_DIR);
+
+  for (const entry of entries) {
+    if (lines.length >= MAX_TOTAL_LINES) {
+      stats.truncated = true;
+      return;
+    }
+
+    const fullPath = join(dir, entry.name);
+
+    if (entry.kind === "unknown") {
+      lines.push(`${indent}[?] ${entry.name}`);
+      continue;
+    }
+
+    try {
+      if (entry.kind === "dir") {
+        stats.directories++;
+        const count = (await readdir(fullPath)).length;
+
+        // Dependency and VCS directories are summarized, never expanded
+        if (ALWAYS_IGNORED.has(entry.name)) {
+          lines.push(`${indent}[dir] ${entry.name}/ (${count} entries, collapsed)`);
+          continue;
+        }
+        lines.push(`${indent}[dir] ${entry.name}/ (${count} entries${entry.symlink ? ", symlink" : ""})`);
+        // Linked directories aren't expanded: they can point outside the workspace or back up the tree
+        if (level < options.depth && !entry.symlink) {
+          await listTree(fullPath, level + 1, options, dirMatcher, lines, stats);
+        }
+      } else {
+        stats.files++;
+        let line = `${indent}[file] ${entry.name}`;
+        if (options.showSizes) {
+          line += ` (${formatSize((await stat(fullPath)).size)})`;
+        }
+        lines.push(line);
+      }
+    } catch {
+      lines.push(`${indent}[?] ${entry.name}`);
+    }
+  }
+
+  if (overflow > 0) {
+    lines.push(`${indent}... ${overflow} more entries not shown`);
+  }
+}
 
 /**
  * Tool: list_directory
- * Lists files and directories at the specified path.
+ * Lists files and directories at the specified path, optionally as a recursive tree.
  */
 export const listDirectoryTool: Tool = {
   definition: {
@@ -12,7 +145,8 @@ export const listDirectoryTool: Tool = {
     function: {
       name: "list_directory",
       description:
-        "List all files and directories at the specified path. Shows file types (file/directory) for each entry.",
+        "List files and directories at the specified path. Set depth > 1 to get an indented tree of the project " +
+        "in one call. node_modules and .git are collapsed into summary lines and .gitignored entries are hidden.",
       parameters: {
         type: "object",
         properties: {
@@ -21,42 +155,66 @@ export const listDirectoryTool: Tool = {
             description:
               "The directory path to list (defaults to current directory if not specified)",
           },
+          depth: {
+            type: "number",
+            description: `How many directory levels to expand (default 1, max ${MAX_DEPTH})`,
+          },
+          show_sizes: {
+            type: "boolean",
+            description: "Show file sizes (default false)",
+          },
+          show_hidden: {
+            type: "boolean",
+            description: "Include dotfiles and dot-directories (default true)",
+          },
+          respect_gitignore: {
+            type: "boolean",
+            description: "Hide entries matched by .gitignore / .ignore files (default true)",
+          },
         },
         required: [],
       },
     },
   },
 
+  readOnly: true,
+
   async execute(args) {
-    const path = (args.path as string) || ".";
+    const resolved = await resolveWorkspacePath((args.path as string) || ".", "list");
+    if (!resolved.ok) {
+      return resolved.result;
+    }
+    const path = resolved.path;
+    const requestedDepth = Number(args.depth);
+    const options: ListOptions = {
+      depth: Number.isFinite(requestedDepth) && requestedDepth >= 1 ? Math.min(Math.trunc(requestedDepth), MAX_DEPTH) : 1,
+      showSizes: args.show_sizes === true,
+      showHidden: args.show_hidden !== false,
+      respectGitignore: args.respect_gitignore !== false,
+    };
 
     try {
-      const entries = await readdir(path);
-
-      // Get details for each entry
-      const details = await Promise.all(
-        entries.map(async (entry) => {
-          try {
-            const fullPath = join(path, entry);
-            const stats = await stat(fullPath);
-            const type = stats.isDirectory() ? "[dir]" : "[file]";
-            return `${type} ${entry}`;
-          } catch {
-            return `[?] ${entry}`;
-          }
-        })
-      );
-
-      if (details.length === 0) {
+      const matcher = options.respectGitignore ? await loadAncestorIgnores(path) : new IgnoreMatcher();
+      const lines: string[] = [];
+      const stats: ListStats = { directories: 0, files: 0, ignored: 0, truncated: false };
+
+      await listTree(path, 1, options, matcher, lines, stats);
+
+      if (lines.length === 0) {
+        const hidden = stats.ignored > 0 ? ` (${stats.ignored} entries hidden by ignore rules)` : "";
         return {
           success: true,
-          output: `Directory "${path}" is empty`,
+          output: `Directory "${path}" is empty${hidden}`,
         };
       }
 
+      const summary = [`${stats.directories} directories, ${stats.files} files`];
+      if (stats.ignored > 0) summary.push(`${stats.ignored} ignored entries hidden`);
+      if (stats.truncated) summary.push(`output truncated at ${MAX_TOTAL_LINES} lines - list a subdirectory or lower depth`);
+
       return {
         success: true,
-        output: details.join("\n"),
+        output: `${lines.join("\n")}\n\n${summary.join(", ")}`,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
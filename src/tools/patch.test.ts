@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyHunks, parsePatch } from "./patch.js";
+
+function applyDiff(content: string, diff: string): string {
+  const [operation] = parsePatch(diff);
+  assert.equal(operation.type, "update");
+  if (operation.type !== "update") return content;
+
+  const result = applyHunks(content, operation.hunks);
+  assert.deepEqual(result.failures, []);
+  return result.content;
+}
+
+test("a -N,0 hunk inserts after line N", () => {
+  const diff = "--- a/f.txt\n+++ b/f.txt\n@@ -2,0 +3 @@\n+NEW\n";
+  assert.equal(applyDiff("a\nb\nc\n", diff), "a\nb\nNEW\nc\n");
+});
+
+test("a -0,0 hunk inserts at the top of the file", () => {
+  const diff = "--- a/f.txt\n+++ b/f.txt\n@@ -0,0 +1,2 @@\n+first\n+second\n";
+  assert.equal(applyDiff("a\nb\n", diff), "first\nsecond\na\nb\n");
+});
+
+test("a -N,0 hunk past the last line appends", () => {
+  const diff = "--- a/f.txt\n+++ b/f.txt\n@@ -2,0 +3 @@\n+c\n";
+  assert.equal(applyDiff("a\nb\n", diff), "a\nb\nc\n");
+});
+
+test("hunks with context still replace at the matched lines", () => {
+  const diff = "--- a/f.txt\n+++ b/f.txt\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n";
+  assert.equal(applyDiff("a\nb\nc\n", diff), "a\nB\nc\n");
+});
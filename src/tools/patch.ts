@@ -0,0 +1,479 @@
+/**
+ * Patch Parsing and Application
+ *
+ * Parses the two patch formats models commonly emit:
+ *   1. Unified diffs (`--- a/file`, `+++ b/file`, `@@ -1,3 +1,4 @@`), including git headers
+ *   2. `*** Begin Patch` envelopes (`*** Add File:`, `*** Update File:`, `*** Delete File:`)
+ *
+ * Hunks are applied with fuzzy context matching, because models often get
+ * line numbers and trailing whitespace slightly wrong.
+ */
+
+/**
+ * A single line inside a hunk: context (" "), addition ("+") or removal ("-").
+ */
+export interface HunkLine {
+  kind: " " | "+" | "-";
+  text: string;
+}
+
+/**
+ * A contiguous block of changes within one file.
+ */
+export interface PatchHunk {
+  /** Header shown in error messages (e.g. "@@ -10,6 +10,7 @@") */
+  header: string;
+  /** 1-based line hint from a unified diff header */
+  oldStart?: number;
+  /** Line to locate before matching this hunk (envelope "@@ anchor" syntax) */
+  anchor?: string;
+  /** Hunk must match at the end of the file */
+  endOfFile?: boolean;
+  lines: HunkLine[];
+}
+
+export type PatchOperation =
+  | { type: "add"; path: string; content: string }
+  | { type: "delete"; path: string }
+  | { type: "update"; path: string; moveTo?: string; hunks: PatchHunk[] };
+
+/**
+ * A hunk that could not be applied.
+ */
+export interface HunkFailure {
+  hunkIndex: number;
+  hunkCount: number;
+  header: string;
+  reason: string;
+  /** The lines the hunk expected to find in the file */
+  expected: string[];
+}
+
+const DEV_NULL = "/dev/null";
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse patch text in either supported format.
+ * Throws an Error describing the first malformed line.
+ */
+export function parsePatch(text: string): PatchOperation[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const operations = lines.some((line) => line.trim() === "*** Begin Patch")
+    ? parseEnvelope(lines)
+    : parseUnifiedDiff(lines);
+
+  if (operations.length === 0) {
+    throw new Error("Patch contains no file changes");
+  }
+  return operations;
+}
+
+/**
+ * Parse a `*** Begin Patch` / `*** End Patch` envelope.
+ */
+function parseEnvelope(lines: string[]): PatchOperation[] {
+  const operations: PatchOperation[] = [];
+  let i = lines.findIndex((line) => line.trim() === "*** Begin Patch") + 1;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === "*** End Patch") {
+      break;
+    }
+
+    if (line.startsWith("*** Add File: ")) {
+      const path = line.slice("*** Add File: ".length).trim();
+      const content: string[] = [];
+      i++;
+      while (i < lines.length && lines[i].startsWith("+")) {
+        content.push(lines[i].slice(1));
+        i++;
+      }
+      operations.push({ type: "add", path, content: content.join("\n") + "\n" });
+      continue;
+    }
+
+    if (line.startsWith("*** Delete File: ")) {
+      operations.push({ type: "delete", path: line.slice("*** Delete File: ".length).trim() });
+      i++;
+      continue;
+    }
+
+    if (line.startsWith("*** Update File: ")) {
+      const path = line.slice("*** Update File: ".length).trim();
+      i++;
+
+      let moveTo: string | undefined;
+      if (i < lines.length && lines[i].startsWith("*** Move to: ")) {
+        moveTo = lines[i].slice("*** Move to: ".length).trim();
+        i++;
+      }
+
+      const hunks: PatchHunk[] = [];
+      let current: PatchHunk | null = null;
+
+      while (i < lines.length) {
+        const hunkLine = lines[i];
+
+        if (hunkLine === "*** End of File") {
+          if (current) current.endOfFile = true;
+          i++;
+          continue;
+        }
+        if (hunkLine.startsWith("*** ")) {
+          break;
+        }
+
+        if (hunkLine.startsWith("@@")) {
+          const anchor = hunkLine.slice(2).replace(/@@\s*$/, "").trim();
+          current = { header: hunkLine, anchor: anchor || undefined, lines: [] };
+          hunks.push(current);
+          i++;
+          continue;
+        }
+
+        const parsed = parseHunkLine(hunkLine);
+        if (!parsed) {
+          throw new Error(`Unexpected line in update for ${path}: "${hunkLine}"`);
+        }
+        if (!current) {
+          current = { header: "@@", lines: [] };
+          hunks.push(current);
+        }
+        current.lines.push(parsed);
+        i++;
+      }
+
+      for (const hunk of hunks) trimTrailingBlankContext(hunk);
+      operations.push({ type: "update", path, moveTo, hunks: hunks.filter((h) => h.lines.length > 0) });
+      continue;
+    }
+
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected line in patch: "${line}"`);
+  }
+
+  return operations;
+}
+
+/**
+ * A file section being assembled while parsing a unified diff.
+ */
+interface DiffSection {
+  oldPath?: string;
+  newPath?: string;
+  renameFrom?: string;
+  renameTo?: string;
+  hunks: PatchHunk[];
+}
+
+/**
+ * Parse a (possibly multi-file) unified diff, with or without git headers.
+ */
+function parseUnifiedDiff(lines: string[]): PatchOperation[] {
+  const sections: DiffSection[] = [];
+  let section: DiffSection | null = null;
+  let i = 0;
+
+  const startSection = (): DiffSection => {
+    const next: DiffSection = { hunks: [] };
+    sections.push(next);
+    return next;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith("diff --git ")) {
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      section = startSection();
+      if (match) {
+        section.oldPath = match[1];
+        section.newPath = match[2];
+      }
+      i++;
+      continue;
+    }
+
+    if (line.startsWith("rename from ") && section) {
+      section.renameFrom = line.slice("rename from ".length).trim();
+      i++;
+      continue;
+    }
+    if (line.startsWith("rename to ") && section) {
+      section.renameTo = line.slice("rename to ".length).trim();
+      i++;
+      continue;
+    }
+
+    if (line.startsWith("--- ") && i + 1 < lines.length && lines[i + 1].startsWith("+++ ")) {
+      // A "---" header without a preceding "diff --git" starts a new file section
+      if (!section || section.hunks.length > 0) {
+        section = startSection();
+      }
+      section.oldPath = parseDiffPath(line.slice(4));
+      section.newPath = parseDiffPath(lines[i + 1].slice(4));
+      i += 2;
+      continue;
+    }
+
+    if (line.startsWith("@@")) {
+      if (!section) {
+        throw new Error(`Hunk "${line}" appears before any file header`);
+      }
+      const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+      const hunk: PatchHunk = {
+        header: line,
+        oldStart: header ? parseInt(header[1], 10) : undefined,
+        lines: [],
+      };
+      i++;
+
+      while (i < lines.length) {
+        const hunkLine = lines[i];
+        if (
+          hunkLine.startsWith("@@") ||
+          hunkLine.startsWith("diff --git ") ||
+          (hunkLine.startsWith("--- ") && lines[i + 1]?.startsWith("+++ "))
+        ) {
+          break;
+        }
+        if (hunkLine.startsWith("\\")) {
+          // "\ No newline at end of file"
+          i++;
+          continue;
+        }
+        const parsed = parseHunkLine(hunkLine);
+        if (!parsed) break;
+        hunk.lines.push(parsed);
+        i++;
+      }
+
+      trimTrailingBlankContext(hunk);
+      section.hunks.push(hunk);
+      continue;
+    }
+
+    // Anything else (index lines, file modes, commit messages) is ignored
+    i++;
+  }
+
+  return sections.map(sectionToOperation).filter((op): op is PatchOperation => op !== null);
+}
+
+/**
+ * Convert a parsed unified diff section into a patch operation.
+ */
+function sectionToOperation(section: DiffSection): PatchOperation | null {
+  const oldPath = section.renameFrom ?? section.oldPath;
+  const newPath = section.renameTo ?? section.newPath;
+
+  if (oldPath === DEV_NULL && newPath) {
+    const added = section.hunks.flatMap((hunk) =>
+      hunk.lines.filter((line) => line.kind !== "-").map((line) => line.text)
+    );
+    return { type: "add", path: newPath, content: added.join("\n") + "\n" };
+  }
+
+  if (newPath === DEV_NULL && oldPath) {
+    return { type: "delete", path: oldPath };
+  }
+
+  if (!oldPath) {
+    return null;
+  }
+
+  const moveTo = newPath && newPath !== oldPath ? newPath : undefined;
+  if (section.hunks.length === 0 && !moveTo) {
+    return null;
+  }
+  return { type: "update", path: oldPath, moveTo, hunks: section.hunks };
+}
+
+/**
+ * Strip "a/" / "b/" prefixes and trailing timestamps from a diff header path.
+ */
+function parseDiffPath(raw: string): string {
+  const path = raw.split("\t")[0].trim();
+  if (path === DEV_NULL) return path;
+  return path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Parse one body line of a hunk. Blank lines are treated as empty context,
+ * since editors and models frequently strip the leading space.
+ */
+function parseHunkLine(line: string): HunkLine | null {
+  if (line === "") return { kind: " ", text: "" };
+  const kind = line[0];
+  if (kind === " " || kind === "+" || kind === "-") {
+    return { kind, text: line.slice(1) };
+  }
+  return null;
+}
+
+/**
+ * Drop blank context lines at the end of a hunk (usually separators, not content).
+ */
+function trimTrailingBlankContext(hunk: PatchHunk): void {
+  while (hunk.lines.length > 0) {
+    const last = hunk.lines[hunk.lines.length - 1];
+    if (last.kind !== " " || last.text !== "") break;
+    hunk.lines.pop();
+  }
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+/**
+ * Line comparisons from strictest to loosest. Each hunk tries every pass in order.
+ */
+const MATCHERS: ((line: string) => string)[] = [
+  (line) => line,
+  (line) => line.trimEnd(),
+  (line) => line.trim(),
+  (line) =>
+    line
+      .trim()
+      .replace(/[‘’]/g, "'")
+      .replace(/[“”]/g, '"')
+      .replace(/[‐-―]/g, "-")
+      .replace(/\s+/g, " "),
+];
+
+/**
+ * Find `needle` in `haystack` at or after `from`, trying looser matchers in turn.
+ * Prefers the match closest to `hint` when one is given.
+ */
+function findBlock(
+  haystack: string[],
+  needle: string[],
+  from: number,
+  hint?: number,
+  endOfFile?: boolean
+): number {
+  for (const normalize of MATCHERS) {
+    const target = needle.map(normalize);
+    const candidates: number[] = [];
+
+    for (let start = from; start + target.length <= haystack.length; start++) {
+      if (endOfFile && start + target.length !== haystack.length) continue;
+      let matches = true;
+      for (let j = 0; j < target.length; j++) {
+        if (normalize(haystack[start + j]) !== target[j]) {
+          matches = false;
+          break;
+        }
+      }
+      if (matches) candidates.push(start);
+    }
+
+    if (candidates.length > 0) {
+      if (hint === undefined) return candidates[0];
+      return candidates.reduce((best, start) =>
+        Math.abs(start - hint) < Math.abs(best - hint) ? start : best
+      );
+    }
+  }
+  return -1;
+}
+
+/**
+ * Apply hunks to file content.
+ * Returns the new content, or the list of hunks that failed to match.
+ */
+export function applyHunks(
+  content: string,
+  hunks: PatchHunk[]
+): { content: string; failures: HunkFailure[] } {
+  const hadTrailingNewline = content.endsWith("\n");
+  const lines = content.split("\n");
+  if (hadTrailingNewline) lines.pop();
+
+  const failures: HunkFailure[] = [];
+  // Replacements are collected first and spliced in reverse so indexes stay valid
+  const replacements: { start: number; length: number; lines: string[] }[] = [];
+  let cursor = 0;
+
+  for (const [index, hunk] of hunks.entries()) {
+    const oldLines = hunk.lines.filter((line) => line.kind !== "+").map((line) => line.text);
+    const newLines = hunk.lines.filter((line) => line.kind !== "-").map((line) => line.text);
+    const fail = (reason: string) =>
+      failures.push({ hunkIndex: index + 1, hunkCount: hunks.length, header: hunk.header, reason, expected: oldLines });
+
+    let searchFrom = cursor;
+    if (hunk.anchor) {
+      const anchorAt = findBlock(lines, [hunk.anchor], cursor);
+      if (anchorAt === -1) {
+        fail(`anchor line "${hunk.anchor}" not found`);
+        continue;
+      }
+      searchFrom = anchorAt + 1;
+    }
+
+    const hint = hunk.oldStart !== undefined ? Math.max(hunk.oldStart - 1, searchFrom) : undefined;
+
+    // Pure insertions have no context to match - place them at the hinted line.
+    // In "@@ -N,0 ... @@" N is the line to insert after, so it is already the 0-based index.
+    if (oldLines.length === 0) {
+      const after = hunk.oldStart !== undefined ? Math.max(hunk.oldStart, searchFrom) : undefined;
+      const at = hunk.endOfFile || after === undefined ? lines.length : Math.min(after, lines.length);
+      replacements.push({ start: at, length: 0, lines: newLines });
+      cursor = at;
+      continue;
+    }
+
+    let start = findBlock(lines, oldLines, searchFrom, hint, hunk.endOfFile);
+    if (start === -1 && searchFrom > 0) {
+      // Hunks may be out of order - retry against the whole file
+      start = findBlock(lines, oldLines, 0, hint, hunk.endOfFile);
+    }
+    if (start === -1) {
+      fail("context and removed lines not found in file");
+      continue;
+    }
+
+    const overlaps = replacements.some((r) => start < r.start + r.length && r.start < start + oldLines.length);
+    if (overlaps) {
+      fail("hunk overlaps a previous hunk");
+      continue;
+    }
+
+    // Keep the file's own text for context lines, which may have matched fuzzily
+    const replaced: string[] = [];
+    let fileLine = start;
+    for (const line of hunk.lines) {
+      if (line.kind === " ") replaced.push(lines[fileLine++]);
+      else if (line.kind === "-") fileLine++;
+      else replaced.push(line.text);
+    }
+
+    replacements.push({ start, length: oldLines.length, lines: replaced });
+    cursor = start + oldLines.length;
+  }
+
+  if (failures.length > 0) {
+    return { content, failures };
+  }
+
+  replacements.sort((a, b) => b.start - a.start);
+  for (const replacement of replacements) {
+    lines.splice(replacement.start, replacement.length, ...replacement.lines);
+  }
+
+  const joined = lines.join("\n");
+  return {
+    content: hadTrailingNewline || content === "" ? joined + "\n" : joined,
+    failures,
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Background Process Manager
+ *
+ * Keeps track of long-running commands (dev servers, watch builds, slow test runs)
+ * started by the agent. Output is buffered so the model can poll it later,
+ * and every process is killed when the CLI exits.
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import { buildLimitPrelude } from "./resourceLimits.js";
+
+// Output kept per process; older output is dropped once this is exceeded
+const MAX_BUFFERED_CHARS = 1024 * 1024;
+// Grace period between SIGTERM and SIGKILL
+const KILL_GRACE_MS = 2000;
+
+/**
+ * A process started by start_process.
+ */
+export interface ManagedProcess {
+  id: string;
+  command: string;
+  cwd: string;
+  pid: number | undefined;
+  startedAt: Date;
+  exitCode: number | null;
+  exitSignal: NodeJS.Signals | null;
+  running: boolean;
+  child: ChildProcess;
+  /** Buffered output (stdout and stderr interleaved) */
+  output: string;
+  /** Total characters ever produced - positions below are absolute */
+  totalChars: number;
+  /** Absolute position of output[0] (grows as old output is dropped) */
+  bufferStart: number;
+  /** Absolute position the model has read up to */
+  readPosition: number;
+}
+
+const processes = new Map<string, ManagedProcess>();
+let nextId = 1;
+let exitHandlersInstalled = false;
+
+/**
+ * Kill a process group: SIGTERM first, then SIGKILL if it doesn't exit.
+ */
+function killGroup(proc: ManagedProcess, signal: NodeJS.Signals = "SIGTERM"): void {
+  if (!proc.running || proc.pid === undefined) return;
+  try {
+    // Negative pid targets the whole process group (the shell and its children)
+    process.kill(-proc.pid, signal);
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Kill every running background process. Safe to call from an exit handler.
+ */
+export function killAllProcesses(): void {
+  for (const proc of processes.values()) {
+    killGroup(proc, "SIGKILL");
+  }
+}
+
+/**
+ * Make sure background processes die with the CLI, however it exits.
+ */
+function installExitHandlers(): void {
+  if (exitHandlersInstalled) return;
+  exitHandlersInstalled = true;
+
+  process.on("exit", killAllProcesses);
+  for (const signal of ["SIGTERM", "SIGHUP"] as const) {
+    process.once(signal, () => {
+      killAllProcesses();
+      process.exit(128 + (signal === "SIGTERM" ? 15 : 1));
+    });
+  }
+}
+
+function appendOutput(proc: ManagedProcess, chunk: string): void {
+  proc.output += chunk;
+  proc.totalChars += chunk.length;
+  if (proc.output.length > MAX_BUFFERED_CHARS) {
+    const drop = proc.output.length - MAX_BUFFERED_CHARS;
+    proc.output = proc.output.slice(drop);
+    proc.bufferStart += drop;
+  }
+}
+
+/**
+ * Start a command in the background, in its own process group.
+ */
+export function startProcess(command: string, cwd: string = process.cwd()): ManagedProcess {
+  installExitHandlers();
+
+  // Limits go in front of the command so the whole process tree inherits them
+  const prelude = buildLimitPrelude();
+  const child = spawn("bash", ["-c", prelude ? `${prelude}\n${command}` : command], {
+    cwd,
+    detached: true,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  const proc: ManagedProcess = {
+    id: `p${nextId++}`,
+    command,
+    cwd,
+    pid: child.pid,
+    startedAt: new Date(),
+    exitCode: null,
+    exitSignal: null,
+    running: true,
+    child,
+    output: "",
+    totalChars: 0,
+    bufferStart: 0,
+    readPosition: 0,
+  };
+
+  child.stdout?.setEncoding("utf-8").on("data", (chunk: string) => appendOutput(proc, chunk));
+  child.stderr?.setEncoding("utf-8").on("data", (chunk: string) => appendOutput(proc, chunk));
+  child.on("error", (error) => {
+    appendOutput(proc, `\n[failed to start: ${error.message}]\n`);
+    proc.running = false;
+  });
+  child.on("exit", (code, signal) => {
+    proc.running = false;
+    proc.exitCode = code;
+    proc.exitSignal = signal;
+  });
+
+  processes.set(proc.id, proc);
+  return proc;
+}
+
+/**
+ * Get a process by id.
+ */
+export function getProcess(id: string): ManagedProcess | undefined {
+  return processes.get(id);
+}
+
+/**
+ * List all processes started this session, oldest first.
+ */
+export function listProcesses(): ManagedProcess[] {
+  return [...processes.values()];
+}
+
+/**
+ * Return output produced since the last read, and advance the read position.
+ */
+export function readNewOutput(proc: ManagedProcess): { text: string; droppedChars: number } {
+  const droppedChars = Math.max(0, proc.bufferStart - proc.readPosition);
+  const from = Math.max(proc.readPosition, proc.bufferStart) - proc.bufferStart;
+  const text = proc.output.slice(from);
+  proc.readPosition = proc.totalChars;
+  return { text, droppedChars };
+}
+
+/**
+ * Stop a process group, escalating to SIGKILL after a grace period.
+ * Resolves once the process has exited.
+ */
+export function killProcess(proc: ManagedProcess): Promise<void> {
+  if (!proc.running) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => killGroup(proc, "SIGKILL"), KILL_GRACE_MS);
+    proc.child.once("exit", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    killGroup(proc, "SIGTERM");
+  });
+}
+
+/**
+ * Human-readable status, e.g. "running", "exited (code 1)".
+ */
+export function describeStatus(proc: ManagedProcess): string {
+  if (proc.running) return "running";
+  if (proc.exitSignal) return `killed (${proc.exitSignal})`;
+  return `exited (code ${proc.exitCode ?? "unknown"})`;
+}
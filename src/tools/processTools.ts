@@ -0,0 +1,199 @@
+import type { Tool, ToolResult } from "./types.js";
+import { requestCommandApproval } from "./runCommand.js";
+import {
+  startProcess,
+  getProcess,
+  readNewOutput,
+  killProcess,
+  describeStatus,
+  type ManagedProcess,
+} from "./processManager.js";
+
+// How long start_process waits for early output (or an immediate crash) by default
+const DEFAULT_START_WAIT_MS = 1000;
+const MAX_WAIT_MS = 30000;
+// Output returned per poll, so a chatty process can't flood the context
+const MAX_OUTPUT_CHARS = 20000;
+
+function parseWait(value: unknown, fallback: number): number {
+  const num = Number(value);
+  return Number.isFinite(num) && num >= 0 ? Math.min(num, MAX_WAIT_MS) : fallback;
+}
+
+/**
+ * Wait up to `ms` for a process to exit, returning early if it does or the wait is cancelled.
+ * Cancelling only stops the wait - the process keeps running in the background.
+ */
+function waitForExit(proc: ManagedProcess, ms: number, signal?: AbortSignal): Promise<void> {
+  if (!proc.running || ms === 0 || signal?.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      proc.child.off("exit", done);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    proc.child.once("exit", done);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Format the unread output of a process with a status header.
+ */
+function formatOutput(proc: ManagedProcess): string {
+  const { text, droppedChars } = readNewOutput(proc);
+  const header = `[${proc.id}] ${describeStatus(proc)} - ${proc.command}`;
+
+  let body = text;
+  if (body.length > MAX_OUTPUT_CHARS) {
+    // Keep the most recent output - that's what matters for "is it up yet?"
+    body = `... (${body.length - MAX_OUTPUT_CHARS} earlier chars skipped)\n` + body.slice(-MAX_OUTPUT_CHARS);
+  }
+  if (droppedChars > 0) {
+    body = `... (${droppedChars} chars were dropped from the buffer before this read)\n` + body;
+  }
+
+  return `${header}\n${body.trim() || "(no new output)"}`;
+}
+
+function unknownProcess(id: unknown): ToolResult {
+  return {
+    success: false,
+    output: `No background process with id "${id}". Use the id returned by start_process.`,
+  };
+}
+
+/**
+ * Tool: start_process
+ * Starts a long-running command in the background and returns its id.
+ */
+export const startProcessTool: Tool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "start_process",
+      description:
+        "Start a long-running shell command in the background (dev server, watch build, long test run) and return " +
+        "a process id immediately. Use read_process_output to check on it and kill_process to stop it. " +
+        "Use run_command instead for commands that finish quickly.",
+      parameters: {
+        type: "object",
+        properties: {
+          command: {
+            type: "string",
+            description: "The shell command to run in the background",
+          },
+          wait_ms: {
+            type: "number",
+            description: `Milliseconds to wait for initial output before returning (default ${DEFAULT_START_WAIT_MS})`,
+          },
+        },
+        required: ["command"],
+      },
+    },
+  },
+
+  async execute(args, context) {
+    const command = args.command as string;
+    if (typeof command !== "string" || command.trim() === "") {
+      return { success: false, output: "Failed to start process: command must be a non-empty string" };
+    }
+
+    const rejection = await requestCommandApproval(command);
+    if (rejection) {
+      return rejection;
+    }
+    if (context.signal?.aborted) {
+      return { success: false, output: "Process not started - cancelled by the user" };
+    }
+
+    const proc = startProcess(command);
+    await waitForExit(proc, parseWait(args.wait_ms, DEFAULT_START_WAIT_MS), context.signal);
+
+    return {
+      success: proc.running || proc.exitCode === 0,
+      output: `Started background process ${proc.id} (pid ${proc.pid ?? "unknown"}).\n${formatOutput(proc)}`,
+    };
+  },
+};
+
+/**
+ * Tool: read_process_output
+ * Returns output a background process produced since the last poll.
+ */
+export const readProcessOutputTool: Tool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "read_process_output",
+      description:
+        "Read new output from a background process since the last time it was read, plus whether it is still running.",
+      parameters: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "The process id returned by start_process (e.g. \"p1\")",
+          },
+          wait_ms: {
+            type: "number",
+            description: "Milliseconds to wait (or until the process exits) before reading (default 0)",
+          },
+        },
+        required: ["id"],
+      },
+    },
+  },
+
+  readOnly: true,
+
+  async execute(args, context) {
+    const proc = getProcess(String(args.id));
+    if (!proc) {
+      return unknownProcess(args.id);
+    }
+
+    await waitForExit(proc, parseWait(args.wait_ms, 0), context.signal);
+    return { success: true, output: formatOutput(proc) };
+  },
+};
+
+/**
+ * Tool: kill_process
+ * Stops a background process and its children.
+ */
+export const killProcessTool: Tool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "kill_process",
+      description: "Stop a background process (and any child processes it started).",
+      parameters: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "The process id returned by start_process",
+          },
+        },
+        required: ["id"],
+      },
+    },
+  },
+
+  async execute(args) {
+    const proc = getProcess(String(args.id));
+    if (!proc) {
+      return unknownProcess(args.id);
+    }
+
+    if (!proc.running) {
+      return { success: true, output: `Process ${proc.id} already ${describeStatus(proc)}\n${formatOutput(proc)}` };
+    }
+
+    await killProcess(proc);
+    return { success: true, output: `Stopped process ${proc.id}.\n${formatOutput(proc)}` };
+  },
+};
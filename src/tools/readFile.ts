@@ -1,9 +1,27 @@
 import { readFile, stat } from "fs/promises";
 import type { Tool } from "./types.js";
+import { resolveWorkspacePath } from "./workspace.js";
+import { checkSensitiveFile } from "./sensitiveFiles.js";
+import { isBinaryBuffer, decodeText } from "../utils/binary.js";
+
+// Default number of lines returned when no limit is given
+const DEFAULT_LINE_LIMIT = 2000;
+// Total characters returned per call, so one read can't flood the context
+const MAX_OUTPUT_CHARS = 100_000;
+// Individual lines longer than this (minified code) are cut
+const MAX_LINE_LENGTH = 2000;
+// Files larger than this aren't loaded at all
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+function parsePositiveInt(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const num = typeof value === "number" ? value : parseInt(String(value), 10);
+  return Number.isFinite(num) && num >= 1 ? Math.trunc(num) : undefined;
+}
 
 /**
  * Tool: read_file
- * Reads the contents of a file and returns it as text.
+ * Reads a range of lines from a text file and returns them with line numbers.
  */
 export const readFileTool: Tool = {
   definition: {
@@ -11,7 +29,9 @@ export const readFileTool: Tool = {
     function: {
       name: "read_file",
       description:
-        "Read the contents of a file at the specified path. Returns the file contents as text.",
+        `Read a text file and return its contents with line numbers (format: "  <line>\\t<text>"). ` +
+        `Returns up to ${DEFAULT_LINE_LIMIT} lines by default; use offset and limit to read other parts of large files. ` +
+        "Binary files are refused.",
       parameters: {
         type: "object",
         properties: {
@@ -19,14 +39,36 @@ export const readFileTool: Tool = {
             type: "string",
             description: "The path to the file to read (relative or absolute)",
           },
+          offset: {
+            type: "number",
+            description: "1-based line number to start reading from (default 1)",
+          },
+          limit: {
+            type: "number",
+            description: `Maximum number of lines to read (default ${DEFAULT_LINE_LIMIT})`,
+          },
         },
         required: ["path"],
       },
     },
   },
 
+  readOnly: true,
+
   async execute(args) {
-    const path = args.path as string;
+    const resolved = await resolveWorkspacePath(args.path as string, "read");
+    if (!resolved.ok) {
+      return resolved.result;
+    }
+    const path = resolved.path;
+
+    const rejection = await checkSensitiveFile(path, resolved.realPath);
+    if (rejection) {
+      return rejection;
+    }
+
+    const offset = parsePositiveInt(args.offset) ?? 1;
+    const limit = parsePositiveInt(args.limit) ?? DEFAULT_LINE_LIMIT;
 
     try {
       // Check if path is a directory
@@ -38,10 +80,67 @@ export const readFileTool: Tool = {
         };
       }
 
-      const content = await readFile(path, "utf-8");
+      if (stats.size > MAX_FILE_BYTES) {
+        return {
+          success: false,
+          output: `Error: "${path}" is too large to read (${stats.size} bytes). Use search_code to find the relevant lines.`,
+        };
+      }
+
+      const buffer = await readFile(path);
+      if (isBinaryBuffer(buffer)) {
+        return {
+          success: false,
+          output: `Error: "${path}" appears to be a binary file (${stats.size} bytes) and was not read.`,
+        };
+      }
+
+      const { text, encoding } = decodeText(buffer);
+      if (text === "") {
+        return { success: true, output: `(file "${path}" is empty)` };
+      }
+
+      const lines = text.split(/\r?\n/);
+      if (lines[lines.length - 1] === "") lines.pop();
+
+      if (offset > lines.length) {
+        return {
+          success: false,
+          output: `Error: offset ${offset} is past the end of "${path}" (${lines.length} lines).`,
+        };
+      }
+
+      // Number each line, stopping early if the character budget runs out
+      const output: string[] = [];
+      let chars = 0;
+      let lastLine = offset - 1;
+      const end = Math.min(lines.length, offset - 1 + limit);
+      for (let i = offset - 1; i < end; i++) {
+        let line = lines[i];
+        if (line.length > MAX_LINE_LENGTH) {
+          line = `${line.slice(0, MAX_LINE_LENGTH)}... (line truncated, ${line.length} chars)`;
+        }
+        const numbered = `${String(i + 1).padStart(6)}\t${line}`;
+        if (chars + numbered.length > MAX_OUTPUT_CHARS && output.length > 0) break;
+        output.push(numbered);
+        chars += numbered.length + 1;
+        lastLine = i + 1;
+      }
+
+      const notes: string[] = [];
+      if (encoding !== "utf-8") {
+        notes.push(`[File is not UTF-8 - decoded as ${encoding}]`);
+      }
+      if (lastLine < lines.length) {
+        notes.push(
+          `[Showing lines ${offset}-${lastLine} of ${lines.length}. ` +
+          `Call read_file with offset=${lastLine + 1} to read more.]`
+        );
+      }
+
       return {
         success: true,
-        output: content,
+        output: [...output, ...(notes.length > 0 ? ["", ...notes] : [])].join("\n"),
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,58 @@
+/**
+ * Resource Limits for Shell Commands
+ *
+ * run_command and start_process both run under bash, so limits are applied with
+ * `ulimit` before the command starts. rlimits are inherited, so everything the
+ * command spawns is covered too. Limits the platform doesn't support are
+ * skipped silently.
+ *
+ * The memory limit caps the data segment (`ulimit -d`) rather than virtual
+ * memory: V8 reserves large address ranges up front, and a virtual memory cap
+ * breaks WebAssembly and fetch in any Node process started under it.
+ */
+
+import { config } from "../config.js";
+
+// Exit status of a process killed by SIGXCPU (128 + 24)
+const CPU_LIMIT_EXIT_CODE = 152;
+// Extra CPU seconds before the hard limit kills a process that ignores SIGXCPU
+const CPU_KILL_GRACE_SECONDS = 5;
+
+/**
+ * Build the `ulimit` commands for the CPU time limit, one per line (empty when disabled).
+ * CPU time adds up over a process's life, so this belongs in a process that runs
+ * one command, never in the long-lived session shell.
+ */
+export function buildCpuLimit(): string {
+  const { cpuSeconds } = config.commandLimits;
+  if (cpuSeconds <= 0) return "";
+  // The soft limit sends SIGXCPU; the hard limit a little later is the SIGKILL backstop
+  return [
+    `ulimit -H -t ${cpuSeconds + CPU_KILL_GRACE_SECONDS} 2>/dev/null`,
+    `ulimit -S -t ${cpuSeconds} 2>/dev/null`,
+  ].join("\n");
+}
+
+/**
+ * Build the `ulimit` commands for the configured limits, one per line.
+ *
+ * @param cpu - Include the CPU time limit (see buildCpuLimit)
+ */
+export function buildLimitPrelude({ cpu = true }: { cpu?: boolean } = {}): string {
+  const { memoryMb, maxProcesses } = config.commandLimits;
+  const lines: string[] = [];
+  if (memoryMb > 0) lines.push(`ulimit -d ${memoryMb * 1024} 2>/dev/null`);
+  if (cpu) lines.push(buildCpuLimit());
+  if (maxProcesses > 0) lines.push(`ulimit -u ${maxProcesses} 2>/dev/null`);
+  return lines.filter(Boolean).join("\n");
+}
+
+/**
+ * Explain an exit code that means a limit was hit, or return null.
+ */
+export function describeLimitExit(exitCode: number | null): string | null {
+  if (exitCode === CPU_LIMIT_EXIT_CODE) {
+    return `[Process exceeded the CPU time limit (${config.commandLimits.cpuSeconds}s) and was killed]`;
+  }
+  return null;
+}
@@ -1,54 +1,123 @@
-import { exec } from "child_process";
-import { promisify } from "util";
-import type { Tool } from "./types.js";
+import { relative } from "path";
+import type { Tool, ToolResult } from "./types.js";
 import { runtimeSettings } from "../config.js";
+import { getShellSession } from "./shellSession.js";
+import { describeLimitExit } from "./resourceLimits.js";
+import { evaluateCommand, DEFAULT_RULES, type PolicyDecision, type PolicyRule } from "./commandPolicy.js";
+import {
+  addPermissionRule,
+  describeRule,
+  getToolRules,
+  matchesCommandPattern,
+  type ScopedPermissionRule,
+} from "../permissions.js";
 
-const execAsync = promisify(exec);
+const COMMAND_TIMEOUT_MS = 30000;
 
 /**
- * Blocklist of dangerous command patterns.
- * These require user approval before execution.
+ * Turn saved run_command permission rules into policy rules matched against each command.
+ * Trusted rules become overrides, checked before the defaults. Untrusted project
+ * rules (only deny and ask get this far) are checked alongside the defaults, so
+ * an ask there can't soften a default deny.
  */
-const BLOCKED_PATTERNS = [
-  // Destructive file operations
-  { pattern: /\brm\s+-rf\b/, reason: "Recursive force delete" },
-  { pattern: /\brm\s+-r\b/, reason: "Recursive delete" },
-  { pattern: /\brm\s+-f\b/, reason: "Force delete" },
-  { pattern: /\brmdir\b/, reason: "Directory removal" },
-  // System commands
-  { pattern: /\bsudo\b/, reason: "Superuser command" },
-  { pattern: /\bshutdown\b/, reason: "System shutdown" },
-  { pattern: /\breboot\b/, reason: "System reboot" },
-  { pattern: /\bkill\s+-9\b/, reason: "Force kill process" },
-  { pattern: /\bkillall\b/, reason: "Kill all processes" },
-  // Disk operations
-  { pattern: /\bdd\b/, reason: "Low-level disk operation" },
-  { pattern: /\bmkfs\b/, reason: "Filesystem creation" },
-  // Network downloads piped to shell
-  { pattern: /curl.*\|\s*(ba)?sh/, reason: "Remote script execution" },
-  { pattern: /wget.*\|\s*(ba)?sh/, reason: "Remote script execution" },
-  // Git destructive operations
-  { pattern: /\bgit\s+push\s+.*--force\b/, reason: "Force push" },
-  { pattern: /\bgit\s+reset\s+--hard\b/, reason: "Hard reset" },
-];
+async function getPermissionPolicyRules(): Promise<{ overrides: PolicyRule[]; untrusted: PolicyRule[] }> {
+  const rules = await getToolRules("run_command");
+  const toPolicyRule = (rule: ScopedPermissionRule): PolicyRule => ({
+    id: `permission:${rule.scope}`,
+    action: rule.action,
+    reason: `Matches ${rule.scope} permission rule: ${describeRule(rule)}`,
+    test: (parsed) => matchesCommandPattern(parsed.argv.join(" "), rule.pattern),
+  });
+  return {
+    overrides: rules.filter((rule) => rule.trusted).map(toPolicyRule),
+    untrusted: rules.filter((rule) => !rule.trusted).map(toPolicyRule),
+  };
+}
+
+async function evaluateWithPermissions(command: string): Promise<PolicyDecision> {
+  const { overrides, untrusted } = await getPermissionPolicyRules();
+  return evaluateCommand(command, [...DEFAULT_RULES, ...untrusted], overrides);
+}
 
 /**
- * Check if a command matches any blocked pattern.
+ * Check a command against saved permission rules and the command policy, and ask
+ * the user to approve it if needed.
+ * Returns null when the command may run, or the ToolResult to send back when it may not.
  */
-function checkBlocklist(command: string): { pattern: RegExp; reason: string } | null {
-  for (const blocked of BLOCKED_PATTERNS) {
-    if (blocked.pattern.test(command)) {
-      return blocked;
+export async function requestCommandApproval(command: string): Promise<ToolResult | null> {
+  const decision = await evaluateWithPermissions(command);
+  if (decision.action === "allow") {
+    return null;
+  }
+
+  // Point at the offending part of a chained command line
+  const reason = decision.command && decision.command !== command
+    ? `${decision.reason} (in "${decision.command}")`
+    : decision.reason;
+
+  if (decision.action === "deny") {
+    return {
+      success: false,
+      output: `⛔ DENIED: "${command}" - ${reason}. This command is not allowed by policy.`,
+    };
+  }
+
+  // No callback available - block the command
+  if (!runtimeSettings.approvalCallback) {
+    return {
+      success: false,
+      output: `⚠️  BLOCKED: "${command}" - ${reason}. Run interactively for approval prompt.`,
+    };
+  }
+
+  // "Always allow" saves a rule for the command that triggered the prompt.
+  // Not offered when a saved ask rule is the cause, since an allow rule can't override it.
+  const target = decision.command ?? command;
+  const canAlwaysAllow = decision.rule !== undefined && !decision.rule.id.startsWith("permission:");
+
+  const response = await runtimeSettings.approvalCallback(command, reason, {
+    always: canAlwaysAllow ? `Always allow "${target}" in this project` : undefined,
+  });
+
+  if (response.action === "always") {
+    // One line can need several rules ("sudo rm -rf x" is checked as both sudo and rm)
+    const added = new Set<string>();
+    let pending = decision;
+    while (pending.action === "ask" && pending.command && !added.has(pending.command) &&
+      pending.rule && !pending.rule.id.startsWith("permission:")) {
+      added.add(pending.command);
+      await addPermissionRule({ tool: "run_command", pattern: pending.command, action: "allow" });
+      pending = await evaluateWithPermissions(command);
     }
+    return null;
+  }
+
+  if (response.action === "no") {
+    return {
+      success: false,
+      silent: true,
+      output: `COMMAND NOT EXECUTED. User rejected the command "${command}". Do NOT claim it was run.`,
+    };
+  }
+
+  if (response.action === "instruct") {
+    return {
+      success: false,
+      silent: true,
+      output: `COMMAND NOT EXECUTED. User rejected and said: "${response.message}". Do NOT claim the command was run.`,
+    };
   }
+
+  // action === "yes"
   return null;
 }
 
 /**
  * Tool: run_command
- * Executes a shell command and returns the output.
+ * Executes a shell command in the persistent shell session and returns the output.
  *
- * Security: Dangerous commands require user approval via interactive prompt.
+ * Security: Commands are checked by the command policy (see commandPolicy.ts).
+ * Dangerous commands require user approval via interactive prompt.
  */
 export const runCommandTool: Tool = {
   definition: {
@@ -56,7 +125,10 @@ export const runCommandTool: Tool = {
     function: {
       name: "run_command",
       description:
-        "Execute a shell command and return its output. Dangerous commands will prompt for user approval.",
+        "Execute a shell command in a persistent bash session and return its output (stdout and stderr combined) " +
+        "and exit code. The working directory and exported variables carry over between calls, so `cd dir` then " +
+        "`npm test` works. Commands time out after 30 seconds and run under memory, CPU-time and process limits. " +
+        "Very long output keeps only the beginning and the end. Dangerous commands will prompt for user approval.",
       parameters: {
         type: "object",
         properties: {
@@ -70,68 +142,51 @@ export const runCommandTool: Tool = {
     },
   },
 
-  async execute(args) {
+  async execute(args, context) {
     const command = args.command as string;
 
-    // Check against blocklist
-    const blocked = checkBlocklist(command);
-    if (blocked) {
-      // If we have an approval callback, ask the user
-      if (runtimeSettings.approvalCallback) {
-        const response = await runtimeSettings.approvalCallback(
-          command,
-          blocked.reason
-        );
-
-        if (response.action === "no") {
-          return {
-            success: false,
-            silent: true,
-            output: `COMMAND NOT EXECUTED. User rejected the command "${command}". Do NOT claim it was run.`,
-          };
-        }
-
-        if (response.action === "instruct") {
-          return {
-            success: false,
-            silent: true,
-            output: `COMMAND NOT EXECUTED. User rejected and said: "${response.message}". Do NOT claim the command was run.`,
-          };
-        }
-
-        // action === "yes" - fall through to execute
-      } else {
-        // No callback available - block the command
-        return {
-          success: false,
-          output: `⚠️  BLOCKED: "${command}" - ${blocked.reason}. Run interactively for approval prompt.`,
-        };
-      }
+    const rejection = await requestCommandApproval(command);
+    if (rejection) {
+      return rejection;
     }
 
     try {
-      const { stdout, stderr } = await execAsync(command, {
-        timeout: 30000, // 30 second timeout
-        maxBuffer: 1024 * 1024, // 1MB max output
-      });
+      const session = getShellSession();
+      const result = await session.run(command, COMMAND_TIMEOUT_MS, context.signal);
+
+      const notes: string[] = [];
+      if (result.cancelled) {
+        notes.push("[Command cancelled by the user and killed]");
+      }
+      if (result.timedOut) {
+        notes.push(`[Command timed out after ${COMMAND_TIMEOUT_MS / 1000}s and was killed - use start_process for long-running commands]`);
+      }
+      const limitNote = describeLimitExit(result.exitCode);
+      if (limitNote) {
+        notes.push(limitNote);
+      }
+      if (result.sessionEnded) {
+        notes.push(`[Note: ${result.sessionEnded}]`);
+      }
+      // Tell the model where the shell is when it has cd'ed away from the project root
+      if (result.cwd !== process.cwd()) {
+        notes.push(`[Shell working directory: ${relative(process.cwd(), result.cwd) || "."}]`);
+      }
 
-      // Combine stdout and stderr for complete output
-      const output = [stdout, stderr].filter(Boolean).join("\n").trim();
+      const output = [result.output.trim(), ...notes].filter(Boolean).join("\n");
 
-      return {
-        success: true,
-        output: output || "(command completed with no output)",
-      };
-    } catch (error) {
-      // exec errors include exit codes and stderr
-      if (error && typeof error === "object" && "stderr" in error) {
-        const execError = error as { stderr: string; code?: number };
+      if (result.exitCode === 0) {
         return {
-          success: false,
-          output: `Command failed (exit code ${execError.code ?? "unknown"}): ${execError.stderr}`,
+          success: true,
+          output: output || "(command completed with no output)",
         };
       }
 
+      return {
+        success: false,
+        output: `Command failed (exit code ${result.exitCode ?? "unknown"}):\n${output || "(no output)"}`,
+      };
+    } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
         success: false,
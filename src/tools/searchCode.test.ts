@@ -0,0 +1,38 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, realpath, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { config } from "../config.js";
+import { searchCodeTool } from "./searchCode.js";
+
+let dir: string;
+const originalRoots = config.workspaceRoots;
+
+before(async () => {
+  dir = await realpath(await mkdtemp(join(tmpdir(), "cody-search-")));
+  config.workspaceRoots = [...originalRoots, dir];
+  await writeFile(join(dir, ".env"), "API_TOKEN=secret-value\n");
+  await writeFile(join(dir, "app.ts"), "const token = process.env.API_TOKEN;\n");
+});
+
+after(async () => {
+  config.workspaceRoots = originalRoots;
+  await rm(dir, { recursive: true, force: true });
+});
+
+test("search_code skips files that may hold secrets", async () => {
+  const result = await searchCodeTool.execute({ pattern: "API_TOKEN", path: dir }, {});
+
+  assert.equal(result.success, true);
+  assert.match(result.output, /app\.ts:1:/);
+  assert.doesNotMatch(result.output, /secret-value/);
+  assert.match(result.output, /Skipped 1 file\(s\) that may contain secrets: .*\.env/);
+});
+
+test("search_code asks before searching a sensitive file directly", async () => {
+  const result = await searchCodeTool.execute({ pattern: "API_TOKEN", path: join(dir, ".env") }, {});
+
+  assert.equal(result.success, false);
+  assert.doesNotMatch(result.output, /secret-value/);
+});
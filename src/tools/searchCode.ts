@@ -0,0 +1,220 @@
+import { readFile, stat } from "fs/promises";
+import type { Tool } from "./types.js";
+import { resolveWorkspacePath } from "./workspace.js";
+import { checkSensitiveFile, isApprovedSensitiveFile, isSensitiveFile } from "./sensitiveFiles.js";
+import { walkFiles } from "../utils/fileWalker.js";
+import { matchesGlob } from "../utils/glob.js";
+import { isBinaryBuffer } from "../utils/binary.js";
+
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS_LIMIT = 1000;
+const MAX_CONTEXT_LINES = 10;
+// Skip huge files (bundles, data dumps) - they are rarely what the model wants
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+// Long lines (minified code) are cut so one match can't flood the context
+const MAX_LINE_LENGTH = 300;
+
+function clampInt(value: unknown, fallback: number, min: number, max: number): number {
+  const num = typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(num)) return fallback;
+  return Math.min(Math.max(Math.trunc(num), min), max);
+}
+
+function truncateLine(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? line.slice(0, MAX_LINE_LENGTH) + "..." : line;
+}
+
+/**
+ * Format the matches of one file, ripgrep style:
+ *   path:12:matching line
+ *   path-13-context line
+ *   --  (between non-adjacent context blocks)
+ */
+function formatFileMatches(
+  path: string,
+  lines: string[],
+  matchLines: number[],
+  contextLines: number
+): string {
+  const shown = new Set<number>();
+  for (const line of matchLines) {
+    for (let i = Math.max(0, line - contextLines); i <= Math.min(lines.length - 1, line + contextLines); i++) {
+      shown.add(i);
+    }
+  }
+
+  const matched = new Set(matchLines);
+  const output: string[] = [];
+  let previous = -1;
+  for (const i of [...shown].sort((a, b) => a - b)) {
+    if (contextLines > 0 && previous !== -1 && i > previous + 1) output.push("--");
+    const separator = matched.has(i) ? ":" : "-";
+    output.push(`${path}${separator}${i + 1}${separator}${truncateLine(lines[i])}`);
+    previous = i;
+  }
+  return output.join("\n");
+}
+
+/**
+ * Tool: search_code
+ * Searches file contents with a regex, honouring .gitignore and skipping binaries.
+ */
+export const searchCodeTool: Tool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "search_code",
+      description:
+        "Search file contents for a regular expression (JavaScript syntax). Respects .gitignore, skips binary " +
+        "files, node_modules and files that may hold secrets (.env, keys) until read_file has been approved for them. Returns matches as path:line:text grouped by file. Use this instead of grep.",
+      parameters: {
+        type: "object",
+        properties: {
+          pattern: {
+            type: "string",
+            description: "Regular expression to search for, matched against each line",
+          },
+          path: {
+            type: "string",
+            description: "Directory or file to search (defaults to current directory)",
+          },
+          glob: {
+            type: "string",
+            description: "Only search files matching this glob, e.g. \"*.ts\" or \"src/**/*.tsx\"",
+          },
+          case_insensitive: {
+            type: "boolean",
+            description: "Ignore case when matching (default false)",
+          },
+          context_lines: {
+            type: "number",
+            description: `Lines of context to show around each match (default 0, max ${MAX_CONTEXT_LINES})`,
+          },
+          max_results: {
+            type: "number",
+            description: `Maximum number of matching lines to return (default ${DEFAULT_MAX_RESULTS}, max ${MAX_RESULTS_LIMIT})`,
+          },
+        },
+        required: ["pattern"],
+      },
+    },
+  },
+
+  readOnly: true,
+
+  async execute(args, context) {
+    const pattern = args.pattern as string;
+    const resolved = await resolveWorkspacePath((args.path as string) || ".", "search");
+    if (!resolved.ok) {
+      return resolved.result;
+    }
+    const path = resolved.path;
+    const glob = args.glob as string | undefined;
+    const contextLines = clampInt(args.context_lines, 0, 0, MAX_CONTEXT_LINES);
+    const maxResults = clampInt(args.max_results, DEFAULT_MAX_RESULTS, 1, MAX_RESULTS_LIMIT);
+
+    if (typeof pattern !== "string" || pattern === "") {
+      return { success: false, output: "Failed to search: pattern must be a non-empty string" };
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, args.case_insensitive === true ? "i" : "");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, output: `Invalid regular expression: ${message}` };
+    }
+
+    let files: string[];
+    // Files that may hold secrets and haven't been approved yet (read_file asks for them)
+    const skippedSensitive: string[] = [];
+    try {
+      const stats = await stat(path);
+      if (stats.isDirectory()) {
+        files = [];
+        for await (const entry of walkFiles(path)) {
+          if (context.signal?.aborted) {
+            return { success: false, output: "Search cancelled by the user" };
+          }
+          if (glob && !matchesGlob(entry.relativePath, glob) && !matchesGlob(entry.path, glob)) continue;
+          if (isSensitiveFile(entry.path) && !isApprovedSensitiveFile(entry.absolutePath)) {
+            skippedSensitive.push(entry.path);
+            continue;
+          }
+          files.push(entry.path);
+        }
+      } else {
+        const denied = await checkSensitiveFile(path, resolved.realPath);
+        if (denied) {
+          return denied;
+        }
+        files = [path];
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, output: `Failed to search: ${message}` };
+    }
+
+    const groups: string[] = [];
+    let totalMatches = 0;
+    let fileCount = 0;
+    let capped = false;
+
+    for (const file of files) {
+      if (capped) break;
+      if (context.signal?.aborted) {
+        return { success: false, output: "Search cancelled by the user" };
+      }
+
+      let buffer: Buffer;
+      try {
+        const stats = await stat(file);
+        if (stats.size > MAX_FILE_BYTES) continue;
+        buffer = await readFile(file);
+      } catch {
+        continue;
+      }
+      if (isBinaryBuffer(buffer)) continue;
+
+      const lines = buffer.toString("utf-8").split(/\r?\n/);
+      const matchLines: number[] = [];
+      for (let i = 0; i < lines.length; i++) {
+        if (regex.test(lines[i])) {
+          // Only a match that doesn't fit means results were left out
+          if (totalMatches + matchLines.length >= maxResults) {
+            capped = true;
+            break;
+          }
+          matchLines.push(i);
+        }
+      }
+
+      if (matchLines.length > 0) {
+        totalMatches += matchLines.length;
+        fileCount++;
+        groups.push(formatFileMatches(file, lines, matchLines, contextLines));
+      }
+    }
+
+    const skippedNote = skippedSensitive.length > 0
+      ? `\n\nSkipped ${skippedSensitive.length} file(s) that may contain secrets: ${skippedSensitive.join(", ")} ` +
+        "(read_file asks the user for approval, after which they are searched too)"
+      : "";
+
+    if (totalMatches === 0) {
+      return {
+        success: true,
+        output: `No matches for /${pattern}/ in ${files.length} file(s)${skippedNote}`,
+      };
+    }
+
+    const summary = capped
+      ? `Showing first ${totalMatches} matches in ${fileCount} file(s) - results capped, narrow the pattern or glob to see more`
+      : `Found ${totalMatches} match(es) in ${fileCount} file(s)`;
+
+    return {
+      success: true,
+      output: `${groups.join("\n\n")}\n\n${summary}${skippedNote}`,
+    };
+  },
+};
@@ -0,0 +1,109 @@
+/**
+ * Sensitive File Deny List
+ *
+ * Files that usually hold credentials (.env, private keys, package registry
+ * tokens) are kept out of read_file and `git show <ref>:<path>` unless the user
+ * approves each one. search_code skips them until they have been approved.
+ * Both the requested name and the file a symlink points to are checked, so
+ * linking notes.txt to .env doesn't get around the prompt.
+ * A user allow rule for read_file skips the prompt (a project file could ship
+ * one for its own .env, so project allows don't count). Approved reads still go
+ * through secret redaction in the agent loop.
+ */
+
+import { basename, resolve } from "path";
+import type { ToolResult } from "./types.js";
+import { runtimeSettings } from "../config.js";
+import { checkPathPermission, describeRule } from "../permissions.js";
+import { matchesGlob } from "../utils/glob.js";
+
+// Matched against the file name only
+const SENSITIVE_PATTERNS = [
+  ".env",
+  ".env.*",
+  "*.pem",
+  "*.key",
+  "*.p12",
+  "*.pfx",
+  "*.keystore",
+  "id_rsa*",
+  "id_dsa*",
+  "id_ecdsa*",
+  "id_ed25519*",
+  ".npmrc",
+  ".pypirc",
+  ".netrc",
+  ".git-credentials",
+  ".codyrc",
+  "credentials",
+];
+
+// Templates and public keys that match the patterns above but hold no secrets
+const ALLOWED_PATTERNS = [".env.example", ".env.sample", ".env.template", "*.pub"];
+
+// Files the user has approved this session
+const approvedFiles = new Set<string>();
+
+/**
+ * Check whether a path names a file that commonly contains secrets.
+ */
+export function isSensitiveFile(path: string): boolean {
+  const name = basename(path);
+  if (ALLOWED_PATTERNS.some((pattern) => matchesGlob(name, pattern))) return false;
+  return SENSITIVE_PATTERNS.some((pattern) => matchesGlob(name, pattern));
+}
+
+/**
+ * Check whether the user approved reading a sensitive file earlier this session.
+ */
+export function isApprovedSensitiveFile(path: string): boolean {
+  return approvedFiles.has(resolve(path));
+}
+
+/**
+ * Ask the user before a sensitive file is read.
+ * Returns null when the read may go ahead, or the ToolResult to send back when it may not.
+ *
+ * @param path - The path as requested
+ * @param realPath - The same path with symlinks resolved (see workspace.ts)
+ */
+export async function checkSensitiveFile(path: string, realPath: string): Promise<ToolResult | null> {
+  const absolute = resolve(realPath);
+  if ((!isSensitiveFile(path) && !isSensitiveFile(absolute)) || approvedFiles.has(absolute)) {
+    return null;
+  }
+
+  // Rules are matched against the file that is actually read
+  const rule = await checkPathPermission("read_file", absolute);
+  if (rule?.action === "allow" && rule.scope === "user") {
+    return null;
+  }
+  if (rule?.action === "deny") {
+    return {
+      success: false,
+      output: `⛔ DENIED: reading "${path}" is blocked by ${rule.scope} permission rule: ${describeRule(rule)}.`,
+    };
+  }
+
+  if (!runtimeSettings.approvalCallback) {
+    return {
+      success: false,
+      output: `ACCESS DENIED: "${path}" may contain secrets (credentials, keys or tokens) and cannot be read without approval.`,
+    };
+  }
+
+  const target = absolute === resolve(path) ? path : `${path} (links to ${absolute})`;
+  const response = await runtimeSettings.approvalCallback(`read ${target}`, "File may contain secrets");
+
+  if (response.action === "yes") {
+    approvedFiles.add(absolute);
+    return null;
+  }
+
+  const said = response.action === "instruct" ? ` User said: "${response.message}".` : "";
+  return {
+    success: false,
+    silent: true,
+    output: `NOT ALLOWED. User rejected reading "${path}" because it may contain secrets.${said}`,
+  };
+}
@@ -0,0 +1,574 @@
+/**
+ * Shell Command Parser
+ *
+ * Splits a shell command line into the individual simple commands bash would run,
+ * so the command policy can judge each one on its own. Understands quoting
+ * (including `$'...'` escapes), `;` `&&` `||` `&` `|`, subshells, `$(...)` / backtick / process
+ * substitution, redirections, heredocs, and nested `bash -c "..."` / `eval`.
+ *
+ * This is not a full shell grammar - anything it can't make sense of is
+ * reported in `errors`, and the policy treats that as "ask the user".
+ */
+
+/**
+ * Where a command appeared in the original command line.
+ */
+export type CommandContext = "top" | "subshell" | "substitution" | "nested-shell";
+
+/**
+ * One simple command (a program and its arguments).
+ */
+export interface ParsedCommand {
+  /** Words after quote removal, with assignments and shell keywords stripped */
+  argv: string[];
+  /** Basename of the program, e.g. "rm" for "/bin/rm" */
+  name: string;
+  /** True when the program name comes from an expansion ($VAR, $(...)) */
+  dynamic: boolean;
+  /** Redirection targets (files written or read) */
+  redirects: string[];
+  context: CommandContext;
+  /** All commands in the same pipeline, in order (includes this one) */
+  pipeline: ParsedCommand[];
+  /** Commands run by substitutions inside this command's words */
+  substitutions: ParsedCommand[];
+}
+
+export interface ParseResult {
+  /** Every command found, including ones nested in substitutions and subshells */
+  commands: ParsedCommand[];
+  errors: string[];
+}
+
+// Shells whose `-c` argument is itself a script we should inspect
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish"]);
+// Reserved words that introduce the real command that follows them
+const LEADING_KEYWORDS = new Set(["!", "if", "then", "else", "elif", "do", "while", "until", "{", "time"]);
+// Reserved words that end a compound command and run nothing themselves
+const TRAILING_KEYWORDS = new Set(["fi", "done", "esac", "}"]);
+// Compound statements whose header runs no program
+const STATEMENT_KEYWORDS = new Set(["for", "select", "case", "function"]);
+// Guard against pathological nesting like bash -c "bash -c \"...\""
+const MAX_DEPTH = 8;
+
+const OPERATOR_CHARS = new Set([";", "&", "|", "<", ">", "(", ")", "\n"]);
+
+interface Word {
+  text: string;
+  dynamic: boolean;
+}
+
+/**
+ * Parse a command line into its simple commands.
+ */
+export function parseShellCommand(source: string): ParseResult {
+  const result: ParseResult = { commands: [], errors: [] };
+  parseScript(source, "top", 0, result);
+  return result;
+}
+
+/**
+ * Find the index of the ")" that closes the "(" just before `start`,
+ * skipping over quotes and nested parentheses.
+ */
+function findClosingParen(source: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "'") {
+      const end = source.indexOf("'", i + 1);
+      if (end === -1) return -1;
+      i = end;
+    } else if (char === '"') {
+      i = findClosingQuote(source, i + 1);
+      if (i === -1) return -1;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find the closing double quote, honouring backslash escapes.
+ */
+function findClosingQuote(source: string, start: number): number {
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "\\") i++;
+    else if (source[i] === '"') return i;
+  }
+  return -1;
+}
+
+function parseScript(source: string, context: CommandContext, depth: number, result: ParseResult): void {
+  if (depth > MAX_DEPTH) {
+    result.errors.push("Command nesting is too deep to analyse");
+    return;
+  }
+
+  let words: Word[] = [];
+  let redirects: string[] = [];
+  let substitutions: ParsedCommand[] = [];
+  let pipeline: ParsedCommand[] = [];
+  const pendingHeredocs: { delimiter: string; stripTabs: boolean }[] = [];
+  let i = 0;
+
+  /**
+   * Run a nested script (substitution, subshell, bash -c) and collect its commands.
+   */
+  const parseNested = (text: string, nestedContext: CommandContext): ParsedCommand[] => {
+    const nested: ParseResult = { commands: [], errors: [] };
+    parseScript(text, nestedContext, depth + 1, nested);
+    result.errors.push(...nested.errors);
+    result.commands.push(...nested.commands);
+    return nested.commands;
+  };
+
+  const endCommand = () => {
+    const command = buildCommand(words, redirects, substitutions, context, pipeline);
+    if (command) {
+      pipeline.push(command);
+      result.commands.push(command);
+      // `bash -c "..."` and `eval "..."` run their argument as a script
+      const script = nestedScript(command);
+      if (script !== null) {
+        command.substitutions.push(...parseNested(script, "nested-shell"));
+      }
+    }
+    words = [];
+    redirects = [];
+    substitutions = [];
+  };
+
+  const endPipeline = () => {
+    endCommand();
+    pipeline = [];
+  };
+
+  /**
+   * Read one word starting at `i`, handling quotes, escapes and substitutions.
+   */
+  const readWord = (): Word | null => {
+    let text = "";
+    let dynamic = false;
+
+    while (i < source.length) {
+      const char = source[i];
+
+      if (char === " " || char === "\t" || OPERATOR_CHARS.has(char)) {
+        // <( and >( are process substitutions, which belong to the word
+        if ((char === "<" || char === ">") && source[i + 1] === "(" && text === "") {
+          const close = findClosingParen(source, i + 2);
+          if (close === -1) {
+            result.errors.push("Unterminated process substitution");
+            i = source.length;
+            return null;
+          }
+          substitutions.push(...parseNested(source.slice(i + 2, close), "substitution"));
+          text += source.slice(i, close + 1);
+          dynamic = true;
+          i = close + 1;
+          continue;
+        }
+        break;
+      }
+
+      if (char === "\\") {
+        if (source[i + 1] === "\n") {
+          i += 2; // line continuation
+          continue;
+        }
+        text += source[i + 1] ?? "";
+        i += 2;
+        continue;
+      }
+
+      if (char === "'") {
+        const end = source.indexOf("'", i + 1);
+        if (end === -1) {
+          result.errors.push("Unterminated single quote");
+          i = source.length;
+          return null;
+        }
+        text += source.slice(i + 1, end);
+        i = end + 1;
+        continue;
+      }
+
+      if (char === '"') {
+        const end = findClosingQuote(source, i + 1);
+        if (end === -1) {
+          result.errors.push("Unterminated double quote");
+          i = source.length;
+          return null;
+        }
+        const inner = source.slice(i + 1, end);
+        const expanded = scanExpansions(inner);
+        text += expanded.text;
+        dynamic ||= expanded.dynamic;
+        i = end + 1;
+        continue;
+      }
+
+      if (char === "$" && source[i + 1] === "'") {
+        // $'...' is quoted text with C-style escapes: $'rm' is just rm
+        const end = findAnsiCQuoteEnd(source, i + 2);
+        if (end === -1) {
+          result.errors.push("Unterminated $'...' quote");
+          i = source.length;
+          return null;
+        }
+        text += decodeAnsiC(source.slice(i + 2, end));
+        i = end + 1;
+        continue;
+      }
+
+      if (char === "$" && source[i + 1] === '"') {
+        // $"..." is a translatable string, otherwise the same as "..."
+        i++;
+        continue;
+      }
+
+      if (char === "$" || char === "`") {
+        const expansion = readExpansion(source, i);
+        if (expansion.error) {
+          result.errors.push(expansion.error);
+          i = source.length;
+          return null;
+        }
+        if (expansion.script !== undefined) {
+          substitutions.push(...parseNested(expansion.script, "substitution"));
+        }
+        text += source.slice(i, expansion.end);
+        dynamic ||= expansion.dynamic;
+        i = expansion.end;
+        continue;
+      }
+
+      text += char;
+      i++;
+    }
+
+    return { text, dynamic };
+  };
+
+  /**
+   * Expansions inside double quotes: $(...) and backticks still run commands.
+   */
+  const scanExpansions = (inner: string): Word => {
+    let text = "";
+    let dynamic = false;
+    for (let j = 0; j < inner.length; j++) {
+      const char = inner[j];
+      if (char === "\\" && j + 1 < inner.length) {
+        text += /[$`"\\\n]/.test(inner[j + 1]) ? inner[j + 1] : char + inner[j + 1];
+        j++;
+      } else if (char === "$" || char === "`") {
+        const expansion = readExpansion(inner, j);
+        if (expansion.error) {
+          result.errors.push(expansion.error);
+          return { text, dynamic: true };
+        }
+        if (expansion.script !== undefined) {
+          substitutions.push(...parseNested(expansion.script, "substitution"));
+        }
+        text += inner.slice(j, expansion.end);
+        dynamic ||= expansion.dynamic;
+        j = expansion.end - 1;
+      } else {
+        text += char;
+      }
+    }
+    return { text, dynamic };
+  };
+
+  /**
+   * Consume heredoc bodies after a newline, so their lines aren't read as commands.
+   */
+  const consumeHeredocs = () => {
+    while (pendingHeredocs.length > 0) {
+      const { delimiter, stripTabs } = pendingHeredocs.shift()!;
+      while (i < source.length) {
+        const lineEnd = source.indexOf("\n", i);
+        const line = source.slice(i, lineEnd === -1 ? source.length : lineEnd);
+        i = lineEnd === -1 ? source.length : lineEnd + 1;
+        if ((stripTabs ? line.replace(/^\t+/, "") : line) === delimiter) break;
+      }
+    }
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === " " || char === "\t") {
+      i++;
+      continue;
+    }
+
+    if (char === "#" && words.length === 0) {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+
+    if (char === "\n") {
+      endPipeline();
+      i++;
+      consumeHeredocs();
+      continue;
+    }
+
+    if (char === ";") {
+      endPipeline();
+      i += source[i + 1] === ";" ? 2 : 1;
+      continue;
+    }
+
+    if (char === "&") {
+      if (source[i + 1] === ">") {
+        // &> and &>> redirect both streams
+        i += source[i + 2] === ">" ? 3 : 2;
+        readRedirectTarget();
+        continue;
+      }
+      endPipeline();
+      i += source[i + 1] === "&" ? 2 : 1;
+      continue;
+    }
+
+    if (char === "|") {
+      if (source[i + 1] === "|") {
+        endPipeline();
+        i += 2;
+      } else {
+        endCommand();
+        i += source[i + 1] === "&" ? 2 : 1;
+      }
+      continue;
+    }
+
+    if (char === "(") {
+      if (words.length > 0) {
+        result.errors.push(`Unexpected "(" after "${words.map((w) => w.text).join(" ")}"`);
+        return;
+      }
+      const arithmetic = source[i + 1] === "(";
+      const close = findClosingParen(source, i + 1);
+      if (close === -1) {
+        result.errors.push("Unterminated subshell");
+        return;
+      }
+      if (!arithmetic) {
+        parseNested(source.slice(i + 1, close), "subshell");
+      }
+      i = close + 1;
+      if (arithmetic && source[i] === ")") i++;
+      continue;
+    }
+
+    if (char === ")") {
+      result.errors.push('Unexpected ")"');
+      return;
+    }
+
+    if (char === "<" || char === ">") {
+      if (source[i + 1] === "(") {
+        // Process substitution used as an argument
+        const word = readWord();
+        if (word) words.push(word);
+        continue;
+      }
+      readRedirect();
+      continue;
+    }
+
+    // A word made only of digits directly followed by a redirect is a file descriptor
+    const start = i;
+    const word = readWord();
+    if (word === null) return;
+    if (/^\d+$/.test(word.text) && (source[i] === "<" || source[i] === ">") && i === start + word.text.length) {
+      readRedirect();
+      continue;
+    }
+    words.push(word);
+  }
+
+  endPipeline();
+
+  function readRedirect(): void {
+    const op = source.slice(i, i + 3);
+    if (op.startsWith("<<<")) {
+      i += 3;
+      readRedirectTarget();
+      return;
+    }
+    if (op.startsWith("<<")) {
+      i += 2;
+      const stripTabs = source[i] === "-";
+      if (stripTabs) i++;
+      while (source[i] === " " || source[i] === "\t") i++;
+      const delimiter = readWord();
+      if (delimiter) pendingHeredocs.push({ delimiter: delimiter.text, stripTabs });
+      return;
+    }
+    // >, >>, >|, <, <>, >&N, <&N
+    i++;
+    if (source[i] === ">" || source[i] === "|" || (source[i - 1] === "<" && source[i] === ">")) i++;
+    if (source[i] === "&") {
+      i++;
+      while (i < source.length && /[0-9-]/.test(source[i])) i++;
+      return;
+    }
+    readRedirectTarget();
+  }
+
+  function readRedirectTarget(): void {
+    while (source[i] === " " || source[i] === "\t") i++;
+    const target = readWord();
+    if (target && target.text) redirects.push(target.text);
+    else result.errors.push("Redirection without a target");
+  }
+}
+
+/**
+ * Find the quote closing a `$'...'` string whose body starts at `start`, or -1.
+ */
+function findAnsiCQuoteEnd(source: string, start: number): number {
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "\\") i++;
+    else if (source[i] === "'") return i;
+  }
+  return -1;
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  a: "\x07", b: "\b", e: "\x1b", E: "\x1b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v",
+  "\\": "\\", "'": "'", '"': '"', "?": "?",
+};
+
+/**
+ * Decode the body of a `$'...'` string the way bash does.
+ */
+function decodeAnsiC(body: string): string {
+  return body.replace(
+    /\\(?:([0-7]{1,3})|x([0-9A-Fa-f]{1,2})|u([0-9A-Fa-f]{1,4})|U([0-9A-Fa-f]{1,8})|c(.)|(.))/gs,
+    (match, octal, hex, unicode, wide, control, other) => {
+      if (octal) return String.fromCharCode(parseInt(octal, 8) & 0xff);
+      if (hex) return String.fromCharCode(parseInt(hex, 16));
+      const codePoint = parseInt(unicode ?? wide ?? "", 16);
+      if (!Number.isNaN(codePoint)) return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+      if (control) return String.fromCharCode(control.toUpperCase().charCodeAt(0) & 0x1f);
+      return SIMPLE_ESCAPES[other] ?? match;
+    }
+  );
+}
+
+/**
+ * Read a `$...` or backtick expansion starting at `start`.
+ * Returns the script to parse for command substitutions.
+ */
+function readExpansion(
+  source: string,
+  start: number
+): { end: number; dynamic: boolean; script?: string; error?: string } {
+  if (source[start] === "`") {
+    let end = start + 1;
+    while (end < source.length && source[end] !== "`") {
+      if (source[end] === "\\") end++;
+      end++;
+    }
+    if (end >= source.length) return { end, dynamic: true, error: "Unterminated backtick substitution" };
+    return { end: end + 1, dynamic: true, script: source.slice(start + 1, end).replace(/\\(.)/g, "$1") };
+  }
+
+  const next = source[start + 1];
+  if (next === "(") {
+    if (source[start + 2] === "(") {
+      // $(( arithmetic )) runs nothing
+      const close = findClosingParen(source, start + 3);
+      if (close === -1) return { end: source.length, dynamic: true, error: "Unterminated arithmetic expansion" };
+      return { end: Math.min(close + 2, source.length), dynamic: true };
+    }
+    const close = findClosingParen(source, start + 2);
+    if (close === -1) return { end: source.length, dynamic: true, error: "Unterminated command substitution" };
+    return { end: close + 1, dynamic: true, script: source.slice(start + 2, close) };
+  }
+
+  if (next === "{") {
+    const close = source.indexOf("}", start + 2);
+    if (close === -1) return { end: source.length, dynamic: true, error: "Unterminated parameter expansion" };
+    return { end: close + 1, dynamic: true };
+  }
+
+  const name = source.slice(start + 1).match(/^([A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/);
+  if (name) return { end: start + 1 + name[0].length, dynamic: true };
+
+  // A lone "$" is literal
+  return { end: start + 1, dynamic: false };
+}
+
+/**
+ * Turn collected words into a command, stripping assignments and keywords.
+ */
+function buildCommand(
+  words: Word[],
+  redirects: string[],
+  substitutions: ParsedCommand[],
+  context: CommandContext,
+  pipeline: ParsedCommand[]
+): ParsedCommand | null {
+  let rest = words;
+
+  // Strip leading VAR=value assignments and keywords like "if", "then", "!"
+  while (rest.length > 0) {
+    const first = rest[0].text;
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(first) || LEADING_KEYWORDS.has(first)) {
+      rest = rest.slice(1);
+    } else {
+      break;
+    }
+  }
+
+  if (rest.length === 0 || (rest.length === 1 && TRAILING_KEYWORDS.has(rest[0].text))) {
+    if (redirects.length === 0 && substitutions.length === 0) return null;
+    // Bare redirections (`> file`) and substitutions still matter to the policy
+    return { argv: [], name: "", dynamic: false, redirects, context, pipeline, substitutions };
+  }
+
+  if (STATEMENT_KEYWORDS.has(rest[0].text)) {
+    return null;
+  }
+
+  const argv = rest.map((word) => word.text);
+  return {
+    argv,
+    name: argv[0].slice(argv[0].lastIndexOf("/") + 1),
+    dynamic: rest[0].dynamic,
+    redirects,
+    context,
+    pipeline,
+    substitutions,
+  };
+}
+
+/**
+ * If the command runs its arguments as a script (bash -c, eval), return that script.
+ */
+export function nestedScript(command: ParsedCommand): string | null {
+  if (command.name === "eval") {
+    return command.argv.slice(1).join(" ");
+  }
+  if (SHELLS.has(command.name)) {
+    const flagIndex = command.argv.findIndex(
+      (arg, index) => index > 0 && /^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg)
+    );
+    if (flagIndex !== -1 && flagIndex + 1 < command.argv.length) {
+      return command.argv[flagIndex + 1];
+    }
+  }
+  return null;
+}
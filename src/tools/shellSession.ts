@@ -0,0 +1,282 @@
+/**
+ * Persistent Shell Session
+ *
+ * run_command executes inside one long-lived bash process, so `cd`, exported
+ * variables and activated virtualenvs carry over between calls - just like a
+ * terminal. Each command is followed by a unique marker line carrying its exit
+ * code and the shell's working directory, which is how we know it finished.
+ *
+ * The shell starts under the configured rlimits (see resourceLimits.ts) and in
+ * its own process group, so a timeout or cancellation kills everything the
+ * command started. CPU time is the exception: it adds up over the shell's
+ * whole life, so with a CPU limit each command runs in a subshell that gets
+ * the limit, and hands its directory, variables, functions and shell options
+ * back to the session when it exits.
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import { randomUUID } from "crypto";
+import { buildCpuLimit, buildLimitPrelude } from "./resourceLimits.js";
+import { config } from "../config.js";
+import { HeadTailBuffer } from "../utils/outputBuffer.js";
+
+// Raw output kept for spotting the marker line (which includes $PWD)
+const RECENT_CHARS = 8192;
+
+/**
+ * Result of running one command in the session.
+ */
+export interface ShellResult {
+  output: string;
+  exitCode: number | null;
+  /** Working directory of the shell after the command */
+  cwd: string;
+  timedOut: boolean;
+  /** The command was cancelled through its abort signal */
+  cancelled?: boolean;
+  /** Set when the shell died or was killed and the next command gets a fresh one */
+  sessionEnded?: string;
+}
+
+/**
+ * Run `$__cody_cmd` and leave its exit status in `$__cody_status`.
+ */
+function buildEval(): string {
+  const cpuLimit = buildCpuLimit();
+  if (!cpuLimit) {
+    return `{ eval "$__cody_cmd"; } 2>&1 </dev/null\n__cody_status=$?`;
+  }
+  // The subshell dumps its state on exit and the session shell sources it.
+  // Variables the command unset are unset here too; errors from read-only
+  // variables are expected and ignored. A command that sets its own EXIT trap
+  // or ends in `exec` keeps its changes to itself.
+  return [
+    "__cody_vars=$(compgen -v)",
+    `__cody_state=$(mktemp "\${TMPDIR:-/tmp}/cody-state.XXXXXX")`,
+    "{ (",
+    cpuLimit,
+    "__cody_save() {",
+    "  {",
+    "    declare -p; declare -f; alias -p; shopt -p; set +o",
+    `    for __cody_name in $__cody_vars; do [[ -v $__cody_name ]] || printf 'unset %s\\n' "$__cody_name"; done`,
+    `    printf 'cd -- %q\\n' "$PWD"`,
+    `  } >"$__cody_state" 2>/dev/null`,
+    "}",
+    `trap 'set -- $?; __cody_save; exit $1' EXIT`,
+    "set --",
+    `eval "$__cody_cmd"`,
+    // The braces silence bash's notice (which quotes this whole script) when a limit kills the subshell.
+    // The status waits in $1 because the dump may hold an old __cody_status.
+    ") 2>&1 </dev/null; } 2>/dev/null && set -- 0 || set -- $?",
+    `. "$__cody_state" >/dev/null 2>&1 || true`,
+    `rm -f "$__cody_state"`,
+    "unset -f __cody_save",
+    "__cody_status=$1",
+  ].join("\n");
+}
+
+interface PendingCommand {
+  marker: string;
+  resolve: (result: ShellResult) => void;
+  timer: NodeJS.Timeout;
+  cleanup: () => void;
+}
+
+export class ShellSession {
+  private shell: ChildProcess | null = null;
+  private output = new HeadTailBuffer(config.commandLimits.maxOutputChars);
+  private recent = "";
+  private pending: PendingCommand | null = null;
+  private cwd = process.cwd();
+
+  /**
+   * Current working directory of the shell (as of the last completed command).
+   */
+  getCwd(): string {
+    return this.cwd;
+  }
+
+  /**
+   * Run a command and wait for it to finish, time out or be cancelled.
+   * Commands run one at a time; stdin is /dev/null and stderr is merged into stdout.
+   */
+  run(command: string, timeoutMs: number, signal?: AbortSignal): Promise<ShellResult> {
+    if (signal?.aborted) {
+      return Promise.resolve({ output: "", exitCode: null, cwd: this.cwd, timedOut: false, cancelled: true });
+    }
+    if (this.pending) {
+      return Promise.reject(new Error("Another command is already running in the shell session"));
+    }
+
+    const shell = this.ensureShell();
+    const marker = `__CODY_DONE_${randomUUID().replace(/-/g, "")}__`;
+    const delimiter = `__CODY_EOF_${randomUUID().replace(/-/g, "")}__`;
+
+    // The command travels through a quoted heredoc and eval, so unbalanced quotes
+    // become a syntax error instead of swallowing the marker line
+    const script = [
+      `__cody_cmd=$(cat <<'${delimiter}'`,
+      command,
+      delimiter,
+      ")",
+      buildEval(),
+      `printf '\\n${marker} %d %s\\n' "$__cody_status" "$PWD"`,
+      "",
+    ].join("\n");
+
+    return new Promise((resolve) => {
+      // Either way the shell is killed mid-command, so it has to be replaced
+      const abandon = (reason: "timedOut" | "cancelled") => {
+        this.finish({
+          output: this.output.toString(),
+          exitCode: null,
+          cwd: this.cwd,
+          timedOut: reason === "timedOut",
+          cancelled: reason === "cancelled",
+          sessionEnded: "the shell was restarted, so exported variables were lost",
+        });
+        this.kill();
+      };
+
+      const timer = setTimeout(() => abandon("timedOut"), timeoutMs);
+      const onAbort = () => abandon("cancelled");
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.output.clear();
+      this.recent = "";
+      this.pending = {
+        marker,
+        resolve,
+        timer,
+        cleanup: () => signal?.removeEventListener("abort", onAbort),
+      };
+      shell.stdin?.write(script);
+    });
+  }
+
+  /**
+   * Kill the shell and everything it started. The next command gets a fresh shell,
+   * started in the current directory with the current output limit.
+   */
+  reset(): void {
+    if (this.pending) {
+      this.finish({
+        output: this.output.toString(),
+        exitCode: null,
+        cwd: this.cwd,
+        timedOut: false,
+        sessionEnded: "the shell session was reset",
+      });
+    }
+    this.kill();
+    this.cwd = process.cwd();
+    this.output = new HeadTailBuffer(config.commandLimits.maxOutputChars);
+  }
+
+  private ensureShell(): ChildProcess {
+    if (this.shell) return this.shell;
+
+    // detached puts the shell in its own process group so timeouts can kill its children too
+    const shell = spawn("bash", ["--noprofile", "--norc"], {
+      cwd: this.cwd,
+      detached: true,
+      stdio: ["pipe", "pipe", "pipe"],
+      env: { ...process.env, PAGER: "cat", GIT_PAGER: "cat" },
+    });
+
+    const onData = (chunk: string) => {
+      this.output.append(chunk);
+      this.recent = (this.recent + chunk).slice(-RECENT_CHARS);
+      this.checkForMarker();
+    };
+    shell.stdout?.setEncoding("utf-8").on("data", onData);
+    shell.stderr?.setEncoding("utf-8").on("data", onData);
+
+    shell.on("exit", (code, signal) => {
+      if (this.shell !== shell) return;
+      this.shell = null;
+      if (this.pending) {
+        this.finish({
+          output: this.output.toString(),
+          exitCode: code,
+          cwd: this.cwd,
+          timedOut: false,
+          sessionEnded: `the shell exited (${signal ?? `code ${code}`}) and a new one will be started`,
+        });
+      }
+    });
+    shell.on("error", () => {
+      if (this.shell === shell) this.shell = null;
+    });
+
+    const prelude = buildLimitPrelude({ cpu: false });
+    if (prelude) {
+      shell.stdin?.write(`${prelude}\n`);
+    }
+
+    this.shell = shell;
+    return shell;
+  }
+
+  private checkForMarker(): void {
+    if (!this.pending) return;
+
+    const at = this.recent.indexOf(this.pending.marker);
+    if (at === -1) return;
+
+    const lineEnd = this.recent.indexOf("\n", at);
+    if (lineEnd === -1) return; // Marker line not complete yet
+
+    const [, status, ...cwdParts] = this.recent.slice(at, lineEnd).split(" ");
+    this.cwd = cwdParts.join(" ") || this.cwd;
+
+    // Strip the marker line and the newline printed before it
+    const newlineBefore = at > 0 && this.recent[at - 1] === "\n" ? 1 : 0;
+    this.output.dropLast(this.recent.length - at + newlineBefore);
+    const output = this.output.toString();
+    this.output.clear();
+    this.recent = "";
+    this.finish({ output, exitCode: parseInt(status, 10), cwd: this.cwd, timedOut: false });
+  }
+
+  private finish(result: ShellResult): void {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = null;
+    clearTimeout(pending.timer);
+    pending.cleanup();
+    pending.resolve(result);
+  }
+
+  private kill(): void {
+    const shell = this.shell;
+    this.shell = null;
+    this.output.clear();
+    this.recent = "";
+    if (shell?.pid !== undefined) {
+      try {
+        process.kill(-shell.pid, "SIGKILL");
+      } catch {
+        // Already gone
+      }
+    }
+  }
+}
+
+// One session per CLI run - reset by /new along with the conversation
+const session = new ShellSession();
+process.on("exit", () => session.reset());
+
+/**
+ * Get the shared shell session used by run_command.
+ */
+export function getShellSession(): ShellSession {
+  return session;
+}
+
+/**
+ * Kill the shared shell session, discarding its working directory and environment.
+ */
+export function resetShellSession(): void {
+  session.reset();
+}
@@ -10,6 +10,19 @@ export interface ToolResult {
   silent?: boolean;
 }
 
+/**
+ * JSON schema for a single tool parameter.
+ * Nested schemas (array items, object properties) let tools accept structured input.
+ */
+export interface ToolParameterSchema {
+  type: string;
+  description: string;
+  enum?: string[];
+  items?: ToolParameterSchema;
+  properties?: Record<string, ToolParameterSchema>;
+  required?: string[];
+}
+
 /**
  * OpenAI function tool definition.
  * This is the schema we send to the LLM to describe available tools.
@@ -21,15 +34,20 @@ export interface FunctionToolDefinition {
     description: string;
     parameters: {
       type: "object";
-      properties: Record<string, {
-        type: string;
-        description: string;
-      }>;
+      properties: Record<string, ToolParameterSchema>;
       required?: string[];
     };
   };
 }
 
+/**
+ * Extra information passed to every tool call.
+ */
+export interface ToolContext {
+  /** Aborted when the user cancels the turn (Ctrl+C) - long-running tools should stop early */
+  signal?: AbortSignal;
+}
+
 /**
  * A tool that Cody can use.
  * Combines the OpenAI schema (for the LLM) with the actual implementation.
@@ -38,6 +56,9 @@ export interface Tool {
   // The schema sent to the LLM - tells it what the tool does and what arguments it needs
   definition: FunctionToolDefinition;
 
+  // True if the tool has no side effects, so calls to it can run in parallel with other read-only calls
+  readOnly?: boolean;
+
   // The actual function that runs when the tool is called
-  execute: (args: Record<string, unknown>) => Promise<ToolResult>;
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<ToolResult>;
 }
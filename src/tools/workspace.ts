@@ -0,0 +1,109 @@
+/**
+ * Workspace Path Confinement
+ *
+ * Every file tool resolves its path arguments through here. Paths are resolved
+ * to their real location (following symlinks, including for files that don't
+ * exist yet) and rejected if they land outside the workspace roots. When the
+ * user opts in with CODY_ALLOW_OUTSIDE_WORKSPACE, outside paths go through the
+ * approval prompt instead.
+ */
+
+import { realpath } from "fs/promises";
+import { homedir } from "os";
+import { basename, dirname, join, resolve, sep } from "path";
+import type { ToolResult } from "./types.js";
+import { config, runtimeSettings } from "../config.js";
+
+export type PathResolution =
+  /** `path` is as requested (with ~ expanded); `realPath` has every symlink resolved */
+  | { ok: true; path: string; realPath: string }
+  | { ok: false; result: ToolResult };
+
+// Real paths the user has approved this session, so repeated reads don't re-prompt
+const approvedPaths = new Set<string>();
+
+/**
+ * Expand a leading "~" to the home directory, as a shell would.
+ */
+function expandHome(path: string): string {
+  if (path === "~") return homedir();
+  if (path.startsWith("~/")) return join(homedir(), path.slice(2));
+  return path;
+}
+
+/**
+ * Resolve symlinks in a path whose last components may not exist yet.
+ */
+async function realpathAllowMissing(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch (error) {
+    const parent = dirname(path);
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT" || parent === path) {
+      return path;
+    }
+    return join(await realpathAllowMissing(parent), basename(path));
+  }
+}
+
+async function getRealRoots(): Promise<string[]> {
+  return Promise.all(config.workspaceRoots.map((root) => realpathAllowMissing(resolve(root))));
+}
+
+function isInside(path: string, root: string): boolean {
+  return path === root || path.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+/**
+ * Resolve a tool's path argument and make sure it stays inside the workspace.
+ *
+ * @param path - The path as given by the model
+ * @param operation - Short description for messages (e.g. "read", "write")
+ */
+export async function resolveWorkspacePath(path: string, operation: string): Promise<PathResolution> {
+  if (typeof path !== "string" || path === "") {
+    return { ok: false, result: { success: false, output: `Failed to ${operation}: path must be a non-empty string` } };
+  }
+
+  const expanded = expandHome(path);
+  const real = await realpathAllowMissing(resolve(expanded));
+  const roots = await getRealRoots();
+
+  if (roots.some((root) => isInside(real, root)) || approvedPaths.has(real)) {
+    return { ok: true, path: expanded, realPath: real };
+  }
+
+  const location = real === resolve(expanded) ? real : `${real} (via symlink)`;
+
+  if (!config.allowOutsideWorkspace || !runtimeSettings.approvalCallback) {
+    return {
+      ok: false,
+      result: {
+        success: false,
+        output:
+          `ACCESS DENIED: "${path}" resolves to ${location}, which is outside the workspace (${roots.join(", ")}). ` +
+          `Only files inside the workspace can be accessed.`,
+      },
+    };
+  }
+
+  const response = await runtimeSettings.approvalCallback(
+    `${operation} ${location}`,
+    "Path is outside the workspace"
+  );
+
+  if (response.action === "yes") {
+    approvedPaths.add(real);
+    return { ok: true, path: expanded, realPath: real };
+  }
+
+  const said = response.action === "instruct" ? ` User said: "${response.message}".` : "";
+  return {
+    ok: false,
+    result: {
+      success: false,
+      silent: true,
+      output: `NOT ALLOWED. User rejected ${operation} access to "${path}" outside the workspace.${said}`,
+    },
+  };
+}
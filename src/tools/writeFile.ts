@@ -1,6 +1,19 @@
-import { writeFile, mkdir } from "fs/promises";
-import { dirname } from "path";
+import { readFile } from "fs/promises";
 import type { Tool } from "./types.js";
+import { resolveWorkspacePath } from "./workspace.js";
+import { applyFileChanges } from "./fileChanges.js";
+
+/**
+ * Read the current content of a file, or null if it doesn't exist yet.
+ */
+async function readIfExists(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
 
 /**
  * Tool: write_file
@@ -31,14 +44,22 @@ export const writeFileTool: Tool = {
   },
 
   async execute(args) {
-    const path = args.path as string;
+    const resolved = await resolveWorkspacePath(args.path as string, "write");
+    if (!resolved.ok) {
+      return resolved.result;
+    }
+    const path = resolved.path;
     const content = args.content as string;
 
     try {
-      // Ensure parent directory exists
-      await mkdir(dirname(path), { recursive: true });
+      const oldContent = await readIfExists(path);
+
+      // Creates parent directories as needed
+      const rejection = await applyFileChanges([{ path, oldContent, newContent: content }], "write_file", "write");
+      if (rejection) {
+        return rejection;
+      }
 
-      await writeFile(path, content, "utf-8");
       return {
         success: true,
         output: `Successfully wrote ${content.length} characters to ${path}`,
@@ -0,0 +1,49 @@
+/**
+ * Binary Content and Text Encoding Detection
+ */
+
+// Number of leading bytes inspected, matching git's heuristic
+const SNIFF_BYTES = 8000;
+
+/**
+ * Check whether a buffer looks like binary data.
+ * Uses the same heuristic as git: a NUL byte near the start means binary.
+ * UTF-16 text (which contains NULs) is recognised by its byte order mark.
+ */
+export function isBinaryBuffer(buffer: Buffer): boolean {
+  if (buffer.length >= 2) {
+    const bom = buffer.readUInt16BE(0);
+    if (bom === 0xfffe || bom === 0xfeff) return false;
+  }
+  const length = Math.min(buffer.length, SNIFF_BYTES);
+  for (let i = 0; i < length; i++) {
+    if (buffer[i] === 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Decode a text buffer, detecting byte order marks and invalid UTF-8.
+ * Files that aren't valid UTF-8 fall back to Latin-1 so they can still be shown.
+ */
+export function decodeText(buffer: Buffer): { text: string; encoding: string } {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: buffer.subarray(3).toString("utf-8"), encoding: "utf-8" };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: buffer.subarray(2).toString("utf16le"), encoding: "utf-16le" };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    // Node has no utf16be decoder - swap byte pairs and decode as little endian
+    const evenLength = (buffer.length - 2) & ~1;
+    const swapped = Buffer.from(buffer.subarray(2, 2 + evenLength));
+    swapped.swap16();
+    return { text: swapped.toString("utf16le"), encoding: "utf-16be" };
+  }
+
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(buffer), encoding: "utf-8" };
+  } catch {
+    return { text: buffer.toString("latin1"), encoding: "latin1" };
+  }
+}
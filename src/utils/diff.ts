@@ -0,0 +1,219 @@
+/**
+ * Line Diffs
+ *
+ * Myers diff over lines, formatted as a unified diff (optionally colored) for
+ * showing file changes before and after they are written.
+ */
+
+import { colors } from "./colors.js";
+
+/**
+ * One line of an edit script.
+ */
+export interface DiffLine {
+  type: "equal" | "add" | "remove";
+  text: string;
+}
+
+// Lines of unchanged context shown around each change
+const DEFAULT_CONTEXT = 3;
+
+/**
+ * Split file content into lines, treating null (missing file) as empty.
+ */
+function toLines(content: string | null): string[] {
+  if (!content) return [];
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+// Beyond these the changed block is shown as removed and re-added in full:
+// the search costs time proportional to lines x edits and memory to edits squared
+const MAX_DIFF_LINES = 20_000;
+const MAX_EDIT_DISTANCE = 2_000;
+
+/**
+ * Myers' algorithm on two blocks that differ at both ends.
+ * Returns null when the edit distance passes MAX_EDIT_DISTANCE.
+ */
+function myers(a: string[], b: string[]): DiffLine[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Only diagonals -d..d can have been reached after d edits, so that slice of v is all the backtrack needs
+  const trace: Int32Array[] = [];
+
+  // Forward pass: record the furthest point reached on each diagonal for every edit count
+  let found = false;
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break outer;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Backtrack through the trace to recover the edits (saved[d + 1 + k] is diagonal k)
+  const edits: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const saved = trace[d];
+    const at = (diagonal: number) => saved[d + 1 + diagonal];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: "equal", text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: "add", text: b[--y] });
+      } else {
+        edits.push({ type: "remove", text: a[--x] });
+      }
+    }
+  }
+  return edits.reverse();
+}
+
+/**
+ * Compute the shortest edit script turning `a` into `b` (Myers' algorithm).
+ * Very large or very different inputs get a correct but not minimal script.
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Common prefix and suffix are cheap to strip and keep the search small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  // Created and deleted files (and pure insertions or removals) need no search
+  const searchable = midA.length > 0 && midB.length > 0 && midA.length + midB.length <= MAX_DIFF_LINES;
+  const middle = (searchable && myers(midA, midB)) || [
+    ...midA.map((text): DiffLine => ({ type: "remove", text })),
+    ...midB.map((text): DiffLine => ({ type: "add", text })),
+  ];
+
+  return [
+    ...a.slice(0, start).map((text): DiffLine => ({ type: "equal", text })),
+    ...middle,
+    ...a.slice(endA).map((text): DiffLine => ({ type: "equal", text })),
+  ];
+}
+
+/**
+ * Count added and removed lines between two versions of a file.
+ */
+export function diffStats(oldContent: string | null, newContent: string | null): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of diffLines(toLines(oldContent), toLines(newContent))) {
+    if (line.type === "add") added++;
+    if (line.type === "remove") removed++;
+  }
+  return { added, removed };
+}
+
+/**
+ * Format the change between two versions of a file as a unified diff.
+ * Pass null for a file that doesn't exist (created or deleted).
+ * Returns an empty string when nothing changed.
+ */
+export function formatUnifiedDiff(
+  path: string,
+  oldContent: string | null,
+  newContent: string | null,
+  options: { color?: boolean; context?: number } = {}
+): string {
+  const context = options.context ?? DEFAULT_CONTEXT;
+  const paint = (color: string, text: string) => (options.color ? `${color}${text}${colors.reset}` : text);
+  const lines = diffLines(toLines(oldContent), toLines(newContent));
+
+  if (!lines.some((line) => line.type !== "equal")) {
+    return "";
+  }
+
+  const output = [
+    paint(colors.bold, `--- ${oldContent === null ? "/dev/null" : `a/${path}`}`),
+    paint(colors.bold, `+++ ${newContent === null ? "/dev/null" : `b/${path}`}`),
+  ];
+
+  // Group changes into hunks, merging ones whose context would overlap
+  let i = 0;
+  while (i < lines.length) {
+    const firstChange = lines.findIndex((line, index) => index >= i && line.type !== "equal");
+    if (firstChange === -1) break;
+
+    const hunkStart = Math.max(i, firstChange - context);
+    let hunkEnd = firstChange;
+    let equalRun = 0;
+    for (let j = firstChange; j < lines.length; j++) {
+      if (lines[j].type === "equal") {
+        equalRun++;
+        if (equalRun > context * 2) break;
+      } else {
+        equalRun = 0;
+        hunkEnd = j;
+      }
+    }
+    hunkEnd = Math.min(lines.length - 1, hunkEnd + context);
+
+    // Line numbers at the start of the hunk
+    let oldLine = 1;
+    let newLine = 1;
+    for (let j = 0; j < hunkStart; j++) {
+      if (lines[j].type !== "add") oldLine++;
+      if (lines[j].type !== "remove") newLine++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let j = hunkStart; j <= hunkEnd; j++) {
+      const line = lines[j];
+      if (line.type === "equal") {
+        body.push(` ${line.text}`);
+        oldCount++;
+        newCount++;
+      } else if (line.type === "remove") {
+        body.push(paint(colors.red, `-${line.text}`));
+        oldCount++;
+      } else {
+        body.push(paint(colors.green, `+${line.text}`));
+        newCount++;
+      }
+    }
+
+    const oldStart = oldCount === 0 ? oldLine - 1 : oldLine;
+    const newStart = newCount === 0 ? newLine - 1 : newLine;
+    output.push(paint(colors.cyan, `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`), ...body);
+    i = hunkEnd + 1;
+  }
+
+  return output.join("\n");
+}
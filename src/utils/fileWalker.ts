@@ -0,0 +1,217 @@
+/**
+ * File Walker
+ *
+ * Recursively walks a directory tree while honouring .gitignore / .ignore files,
+ * so tools like search_code and find_files skip build output and dependencies
+ * without shelling out to external programs.
+ */
+
+import { readdir, readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { dirname, join, relative, resolve, sep } from "path";
+import { globToRegexSource } from "./glob.js";
+
+// Directories that are never worth walking, even without an ignore file
+export const ALWAYS_IGNORED = new Set([".git", "node_modules"]);
+
+// Ignore files read from every directory (later rules override earlier ones)
+const IGNORE_FILES = [".gitignore", ".ignore"];
+
+/**
+ * A single compiled ignore rule.
+ */
+interface IgnoreRule {
+  /** Absolute directory containing the ignore file */
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Compile one line of an ignore file. Returns null for blanks and comments.
+ */
+function compileIgnoreLine(line: string, base: string): IgnoreRule | null {
+  let pattern = line.replace(/\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) return null;
+
+  let negate = false;
+  if (pattern.startsWith("!")) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\")) {
+    pattern = pattern.slice(1);
+  }
+
+  const dirOnly = pattern.endsWith("/");
+  if (dirOnly) pattern = pattern.slice(0, -1);
+  if (!pattern) return null;
+
+  // A slash anywhere but the end anchors the pattern to the ignore file's directory
+  const anchored = pattern.includes("/");
+  if (pattern.startsWith("/")) pattern = pattern.slice(1);
+
+  const source = globToRegexSource(pattern);
+  const regex = anchored
+    ? new RegExp(`^${source}(?:/.*)?$`)
+    : new RegExp(`(?:^|/)${source}(?:/.*)?$`);
+
+  return { base, regex, negate, dirOnly };
+}
+
+/**
+ * Ignore rules accumulated from the ignore files on the way down the tree.
+ */
+export class IgnoreMatcher {
+  constructor(private readonly rules: IgnoreRule[] = []) {}
+
+  /**
+   * Load ignore files from `dir` and return a matcher that includes them.
+   */
+  async extend(dir: string): Promise<IgnoreMatcher> {
+    const added: IgnoreRule[] = [];
+    for (const name of IGNORE_FILES) {
+      try {
+        const text = await readFile(join(dir, name), "utf-8");
+        for (const line of text.split(/\r?\n/)) {
+          const rule = compileIgnoreLine(line, dir);
+          if (rule) added.push(rule);
+        }
+      } catch {
+        // No ignore file here
+      }
+    }
+    return added.length > 0 ? new IgnoreMatcher([...this.rules, ...added]) : this;
+  }
+
+  /**
+   * Check whether an absolute path is ignored. The last matching rule wins.
+   */
+  isIgnored(absolutePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      const rel = relative(rule.base, absolutePath);
+      if (!rel || rel.startsWith("..")) continue;
+      if (rule.dirOnly && !isDirectory) continue;
+      if (rule.regex.test(rel.split(sep).join("/"))) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+}
+
+/**
+ * Build a matcher with the ignore files of every ancestor of `dir`,
+ * up to and including the enclosing git repository root.
+ */
+export async function loadAncestorIgnores(dir: string): Promise<IgnoreMatcher> {
+  const ancestors: string[] = [];
+  let current = resolve(dir);
+
+  while (true) {
+    ancestors.unshift(current);
+    if (existsSync(join(current, ".git"))) break;
+    const parent = dirname(current);
+    if (parent === current) {
+      // Not inside a repository - only use the directory's own ignore files
+      ancestors.splice(0, ancestors.length - 1);
+      break;
+    }
+    current = parent;
+  }
+
+  let matcher = new IgnoreMatcher();
+  for (const ancestor of ancestors) {
+    matcher = await matcher.extend(ancestor);
+  }
+  return matcher;
+}
+
+/**
+ * An entry produced by walkFiles.
+ */
+export interface WalkEntry {
+  /** Path as the tools should display it (the root joined with the relative path) */
+  path: string;
+  /** Path relative to the walk root, using forward slashes */
+  relativePath: string;
+  absolutePath: string;
+  isDirectory: boolean;
+  depth: number;
+}
+
+export interface WalkOptions {
+  /** Honour .gitignore / .ignore files (default true) */
+  respectGitignore?: boolean;
+  /** Include dotfiles and dot-directories (default true) */
+  includeHidden?: boolean;
+  /** Yield directories as well as files (default false) */
+  includeDirectories?: boolean;
+  /** Maximum depth to descend, where 1 is the root's direct children */
+  maxDepth?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Walk a directory tree depth-first, yielding entries in sorted order.
+ * Unreadable directories are skipped silently.
+ */
+export async function* walkFiles(
+  root: string,
+  options: WalkOptions = {}
+): AsyncGenerator<WalkEntry> {
+  const respectGitignore = options.respectGitignore ?? true;
+  const includeHidden = options.includeHidden ?? true;
+  const maxDepth = options.maxDepth ?? Infinity;
+  const rootAbsolute = resolve(root);
+
+  const initialMatcher = respectGitignore ? await loadAncestorIgnores(rootAbsolute) : new IgnoreMatcher();
+
+  async function* visit(dir: string, depth: number, matcher: IgnoreMatcher): AsyncGenerator<WalkEntry> {
+    if (options.signal?.aborted) return;
+
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    const dirMatcher = respectGitignore && dir !== rootAbsolute ? await matcher.extend(dir) : matcher;
+
+    for (const entry of entries) {
+      if (options.signal?.aborted) return;
+      if (!includeHidden && entry.name.startsWith(".")) continue;
+
+      const absolutePath = join(dir, entry.name);
+      const isDirectory = entry.isDirectory();
+
+      if (respectGitignore) {
+        if (isDirectory && ALWAYS_IGNORED.has(entry.name)) continue;
+        if (dirMatcher.isIgnored(absolutePath, isDirectory)) continue;
+      }
+
+      const relativePath = relative(rootAbsolute, absolutePath).split(sep).join("/");
+      const walkEntry: WalkEntry = {
+        path: join(root, relativePath),
+        relativePath,
+        absolutePath,
+        isDirectory,
+        depth,
+      };
+
+      if (isDirectory) {
+        if (options.includeDirectories) yield walkEntry;
+        if (depth < maxDepth) {
+          yield* visit(absolutePath, depth + 1, dirMatcher);
+        }
+      } else if (entry.isFile()) {
+        yield walkEntry;
+      }
+    }
+  }
+
+  yield* visit(rootAbsolute, 1, initialMatcher);
+}
@@ -0,0 +1,101 @@
+/**
+ * Glob Matching
+ *
+ * Minimal glob-to-regex conversion shared by the file tools and ignore rules.
+ * Supports `*`, `**`, `?`, `[abc]` character classes and `{a,b}` alternation.
+ */
+
+/**
+ * Convert a glob pattern into a regex source string (without anchors).
+ */
+export function globToRegexSource(glob: string): string {
+  let source = "";
+  let inGroup = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    switch (char) {
+      case "*":
+        if (glob[i + 1] === "*") {
+          // "**/" matches zero or more directories, a trailing "**" matches everything
+          if (glob[i + 2] === "/") {
+            source += "(?:.*/)?";
+            i += 2;
+          } else {
+            source += ".*";
+            i += 1;
+          }
+        } else {
+          source += "[^/]*";
+        }
+        break;
+      case "?":
+        source += "[^/]";
+        break;
+      case "[": {
+        const close = glob.indexOf("]", i + 1);
+        if (close === -1) {
+          source += "\\[";
+        } else {
+          let cls = glob.slice(i + 1, close).replace(/\\/g, "\\\\");
+          if (cls.startsWith("!")) cls = "^" + cls.slice(1);
+          source += `[${cls}]`;
+          i = close;
+        }
+        break;
+      }
+      case "{":
+        inGroup++;
+        source += "(?:";
+        break;
+      case "}":
+        if (inGroup > 0) {
+          inGroup--;
+          source += ")";
+        } else {
+          source += "\\}";
+        }
+        break;
+      case ",":
+        source += inGroup > 0 ? "|" : ",";
+        break;
+      case "\\":
+        if (i + 1 < glob.length) {
+          source += escapeRegex(glob[i + 1]);
+          i++;
+        }
+        break;
+      default:
+        source += escapeRegex(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compile a glob into an anchored regex.
+ */
+export function globToRegExp(glob: string, flags = ""): RegExp {
+  return new RegExp(`^${globToRegexSource(glob)}$`, flags);
+}
+
+/**
+ * Check a relative, forward-slash path against a glob.
+ * Globs without a "/" match the file name at any depth (e.g. "*.ts").
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  const normalized = path.replace(/\\/g, "/").replace(/^\.\//, "");
+  const pattern = glob.replace(/^\.\//, "");
+
+  if (!pattern.includes("/")) {
+    const name = normalized.slice(normalized.lastIndexOf("/") + 1);
+    return globToRegExp(pattern).test(name);
+  }
+  return globToRegExp(pattern).test(normalized);
+}
+
+function escapeRegex(char: string): string {
+  return /[.+^$()|[\]{}\\/*?]/.test(char) ? `\\${char}` : char;
+}
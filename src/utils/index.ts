@@ -4,3 +4,7 @@
 
 export { colors } from "./colors.js";
 export { renderContent, renderMarkdown, isLikelyMarkdown } from "./markdownRenderer.js";
+export { globToRegExp, matchesGlob } from "./glob.js";
+export { walkFiles, IgnoreMatcher, loadAncestorIgnores, type WalkEntry, type WalkOptions } from "./fileWalker.js";
+export { isBinaryBuffer, decodeText } from "./binary.js";
+export { StreamRenderer } from "./streamRenderer.js";
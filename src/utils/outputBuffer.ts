@@ -0,0 +1,71 @@
+/**
+ * Head/Tail Output Buffer
+ *
+ * Collects command output up to a fixed size. Once full, the start and the end
+ * are kept and the middle is dropped - the first lines usually say what ran and
+ * the last lines say how it ended, which is what the model needs from a runaway build.
+ */
+
+export class HeadTailBuffer {
+  private head = "";
+  private tail = "";
+  private omittedBytes = 0;
+  private readonly headLimit: number;
+  private readonly tailLimit: number;
+
+  /**
+   * @param maxChars - Characters kept in total (0 keeps everything)
+   */
+  constructor(maxChars: number) {
+    this.headLimit = maxChars > 0 ? Math.floor(maxChars / 2) : Infinity;
+    this.tailLimit = maxChars > 0 ? maxChars - this.headLimit : Infinity;
+  }
+
+  append(chunk: string): void {
+    const headRoom = this.headLimit - this.head.length;
+    if (headRoom > 0) {
+      this.head += chunk.slice(0, headRoom);
+      chunk = chunk.slice(headRoom);
+    }
+    if (chunk === "") return;
+
+    this.tail += chunk;
+    if (this.tail.length > this.tailLimit) {
+      const dropped = this.tail.slice(0, this.tail.length - this.tailLimit);
+      this.omittedBytes += Buffer.byteLength(dropped);
+      this.tail = this.tail.slice(dropped.length);
+    }
+  }
+
+  /**
+   * Remove the last `count` characters (used to strip marker lines from the end).
+   */
+  dropLast(count: number): void {
+    const fromTail = Math.min(count, this.tail.length);
+    this.tail = this.tail.slice(0, this.tail.length - fromTail);
+    const fromHead = count - fromTail;
+    if (fromHead > 0) {
+      this.head = this.head.slice(0, Math.max(0, this.head.length - fromHead));
+    }
+  }
+
+  /**
+   * Number of bytes dropped from the middle so far.
+   */
+  get omitted(): number {
+    return this.omittedBytes;
+  }
+
+  clear(): void {
+    this.head = "";
+    this.tail = "";
+    this.omittedBytes = 0;
+  }
+
+  toString(): string {
+    if (this.omittedBytes === 0) {
+      return this.head + this.tail;
+    }
+    return `${this.head}\n\n... [${this.omittedBytes} bytes omitted] ...\n\n${this.tail}`;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Streaming Renderer for Terminal
+ *
+ * Prints a response while it streams in. Markdown is rendered a line at a
+ * time: the unfinished line is shown as plain text and replaced with its
+ * rendered form once the newline arrives. When output isn't a terminal, only
+ * finished lines are written.
+ */
+
+import { highlight } from "cli-highlight";
+import type { StreamHandlers, TextSegment } from "../agent/stream.js";
+import { colors as c } from "./colors.js";
+import { renderMarkdown } from "./markdownRenderer.js";
+
+const PREFIX = "◆ ";
+
+export class StreamRenderer implements StreamHandlers {
+  /** True once any text has been printed */
+  hasOutput = false;
+
+  private type: TextSegment["type"] | null = null;
+  private line = "";
+  // Characters of `line` already printed as plain text
+  private shown = 0;
+  // Screen column the current line started at (after the prefix)
+  private lineStart = 0;
+  private fence: { language: string } | null = null;
+
+  constructor(private readonly out: NodeJS.WriteStream = process.stdout) {}
+
+  onText(segment: TextSegment): void {
+    if (this.type === null) {
+      this.out.write(`\n${PREFIX}`);
+      this.lineStart = PREFIX.length;
+      this.hasOutput = true;
+    }
+
+    if (segment.type !== this.type) {
+      this.startSection(segment.type);
+    }
+
+    this.line += segment.text;
+    let newline = this.line.indexOf("\n");
+    while (newline !== -1) {
+      this.writeLine(this.line.slice(0, newline));
+      this.out.write("\n");
+      this.line = this.line.slice(newline + 1);
+      newline = this.line.indexOf("\n");
+    }
+
+    // Show the unfinished line as it grows
+    if (this.out.isTTY && this.line.length > this.shown) {
+      const fresh = this.line.slice(this.shown);
+      this.out.write(this.type === "thinking" ? `${c.blue}${fresh}${c.reset}` : fresh);
+      this.shown = this.line.length;
+    }
+  }
+
+  onEnd(): void {
+    if (this.type === null) return;
+    if (this.line) {
+      this.writeLine(this.line);
+    }
+    this.out.write("\n");
+    this.line = "";
+    this.type = null;
+    this.fence = null;
+  }
+
+  /**
+   * Print the Thinking / Response headers, matching the non-streamed layout.
+   */
+  private startSection(type: TextSegment["type"]): void {
+    const previous = this.type;
+    // Finish the previous section's line in its own style
+    this.flushLine();
+    this.type = type;
+
+    if (type === "thinking") {
+      if (previous !== null) {
+        this.out.write("\n");
+      }
+      this.out.write(`${c.yellow}── Thinking ──${c.reset}\n`);
+      this.lineStart = 0;
+    } else if (previous === "thinking") {
+      this.out.write(`\n\n${c.green}── Response ──${c.reset}\n`);
+      this.lineStart = 0;
+    }
+  }
+
+  private flushLine(): void {
+    if (this.line) {
+      this.writeLine(this.line);
+      this.line = "";
+    }
+  }
+
+  /**
+   * Replace the plain text shown so far with the rendered line.
+   */
+  private writeLine(text: string): void {
+    this.erasePartial();
+    this.out.write(this.type === "thinking" ? `${c.blue}${text}${c.reset}` : this.renderLine(text));
+    this.lineStart = 0;
+  }
+
+  private erasePartial(): void {
+    if (this.shown === 0) return;
+    const columns = this.out.columns || 80;
+    const rows = Math.ceil((this.lineStart + this.shown) / columns);
+    if (rows > 1) {
+      this.out.write(`\x1b[${rows - 1}A`);
+    }
+    this.out.write(`\r${this.lineStart > 0 ? `\x1b[${this.lineStart}C` : ""}\x1b[J`);
+    this.shown = 0;
+  }
+
+  private renderLine(text: string): string {
+    const fenceMatch = text.match(/^\s*```(\w*)/);
+    if (fenceMatch) {
+      this.fence = this.fence ? null : { language: fenceMatch[1] };
+      return `${c.gray}───${c.reset}`;
+    }
+
+    if (this.fence) {
+      try {
+        return highlight(text, { language: this.fence.language || "plaintext" });
+      } catch {
+        return text;
+      }
+    }
+
+    return renderMarkdown(text);
+  }
+}